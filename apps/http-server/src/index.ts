@@ -1,11 +1,44 @@
 import dotenv from "dotenv";
 dotenv.config();
 import express from "express";
+import cors from "cors";
 import authRoutes from "./routes/auth.route";
+import testRoutes from "./routes/test.route";
+import questionRoutes from "./routes/question.route";
+import questionGroupRoutes from "./routes/question-group.route";
+import docsRoutes from "./routes/docs.route";
+import analyticsRoutes from "./routes/analytics.route";
+import leaderboardRoutes from "./routes/leaderboard.route";
+import reviewRoutes from "./routes/review.route";
+import scoringSchemeRoutes from "./routes/scoring-scheme.route";
 import { authMiddleware } from "./middlewares/auth.middleware";
+import { adminMiddleware } from "./middlewares/admin.middleware";
+import { errorHandler, notFoundHandler } from "./middlewares/error.middleware";
+import { finalizeExpiredTests } from "./services/test.service";
+
+const isLoopback = (address: string) =>
+  address === "::1" || address.startsWith("127.") || address.startsWith("::ffff:127.");
 
 const app = express();
-app.use(express.json());
+// Pages call the API directly, so when it runs behind a reverse proxy on the
+// same host the last X-Forwarded-For entry is the client. Other proxies have
+// to be listed in TRUST_PROXY. The web app's auth routes pass the client
+// address in a signed header instead, see utils/client-ip.
+app.set(
+  "trust proxy",
+  process.env.TRUST_PROXY ?? ((address: string, hop: number) => hop === 0 && isLoopback(address))
+);
+// Pages call the API directly through @repo/api-client with bearer tokens
+app.use(cors({ origin: process.env.CORS_ORIGIN?.split(",") ?? "http://localhost:3001" }));
+// Question imports parse their own larger body once the caller is known to
+// be an admin, so the default parser leaves that route alone
+const jsonParser = express.json();
+app.use((req, res, next) => {
+  if (req.path === "/api/v1/questions/import") {
+    return next();
+  }
+  jsonParser(req, res, next);
+});
 
 app.get("/health-check", authMiddleware, (req, res) => {
   res.json({
@@ -13,6 +46,23 @@ app.get("/health-check", authMiddleware, (req, res) => {
   });
 });
 
+app.use("/api/v1", docsRoutes);
 app.use("/api/v1", authRoutes);
+app.use("/api/v1/tests", authMiddleware, testRoutes);
+app.use("/api/v1/questions", authMiddleware, adminMiddleware, questionRoutes);
+app.use("/api/v1/question-groups", authMiddleware, adminMiddleware, questionGroupRoutes);
+app.use("/api/v1/analytics", authMiddleware, analyticsRoutes);
+app.use("/api/v1/leaderboards", authMiddleware, leaderboardRoutes);
+app.use("/api/v1/reviews", authMiddleware, reviewRoutes);
+app.use("/api/v1/scoring-schemes", authMiddleware, scoringSchemeRoutes);
+
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+// Timed tests are also finalized lazily on access; this sweep covers tests
+// that are abandoned and never requested again.
+setInterval(() => {
+  finalizeExpiredTests().catch((error) => console.error(error));
+}, 60 * 1000);
 
 app.listen(4000);
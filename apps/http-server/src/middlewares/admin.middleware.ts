@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from "express";
+import { prismaClient } from "@repo/db/client";
+import { ForbiddenError } from "../utils/errors";
+
+// Must run after authMiddleware, which sets req.userId.
+export const adminMiddleware = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const user = await prismaClient.user.findUnique({
+    where: {
+      id: Number(req.userId),
+    },
+    select: {
+      role: true,
+    },
+  });
+
+  if (!user || user.role !== "ADMIN") {
+    throw new ForbiddenError("Admin access required");
+  }
+
+  next();
+};
@@ -1,38 +1,46 @@
 import { Request, Response, NextFunction } from "express";
 import jwt, { JwtPayload } from "jsonwebtoken";
+import { isSessionActive } from "../services/session.service";
+import { UnauthorizedError } from "../utils/errors";
 
-export const authMiddleware = (
+const verifyAccessToken = (token: string) => {
+  try {
+    return jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+  } catch (error) {
+    // Clients refresh on ACCESS_TOKEN_EXPIRED and sign in again otherwise
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new UnauthorizedError("Access token has expired", "ACCESS_TOKEN_EXPIRED");
+    }
+    throw new UnauthorizedError("Invalid access token");
+  }
+};
+
+export const authMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  try {
-    const authHeader = req.headers["authorization"];
+  const authHeader = req.headers["authorization"];
 
-    if (!authHeader) {
-      return res.status(401).json({
-        message: "Authorization header missing",
-      });
-    }
+  if (!authHeader) {
+    throw new UnauthorizedError("Authorization header missing");
+  }
 
-    const token = authHeader.startsWith("Bearer ")
-      ? authHeader.slice(7)
-      : authHeader;
+  const token = authHeader.startsWith("Bearer ")
+    ? authHeader.slice(7)
+    : authHeader;
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+  const decoded = verifyAccessToken(token);
 
-    if (!decoded || typeof decoded === "string" || !decoded.userId) {
-      return res.status(403).json({
-        message: "Invalid token",
-      });
-    }
+  if (!decoded || typeof decoded === "string" || !decoded.userId || !decoded.sessionId) {
+    throw new UnauthorizedError("Invalid access token");
+  }
 
-    req.userId = decoded.userId;
-    next();
-  } catch (error) {
-    console.error(error);
-    return res.status(403).json({
-      message: "Unauthorized",
-    });
+  if (!(await isSessionActive(decoded.sessionId))) {
+    throw new UnauthorizedError("Session has been revoked", "SESSION_REVOKED");
   }
+
+  req.userId = decoded.userId;
+  req.sessionId = decoded.sessionId;
+  next();
 };
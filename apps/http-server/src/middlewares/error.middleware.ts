@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@repo/db/client";
+import type { ErrorResponseSchema } from "@repo/common/contracts";
+import { z } from "zod";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../utils/errors";
+
+type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+
+// Known Prisma failures that are caused by the request rather than the server
+const fromPrismaError = (error: Prisma.PrismaClientKnownRequestError) => {
+  switch (error.code) {
+    case "P2002": {
+      const target = error.meta?.target;
+      const fields = Array.isArray(target) ? target.join(", ") : target;
+      return new ConflictError(
+        fields ? `A record with this ${fields} already exists` : "Record already exists"
+      );
+    }
+    case "P2003":
+      return new ConflictError("Operation conflicts with a related record");
+    case "P2025":
+      return new NotFoundError("Record not found");
+    case "P2000":
+      return new BadRequestError("Value is too long for its field");
+    default:
+      return null;
+  }
+};
+
+// Errors raised by express.json() before any handler runs
+const fromBodyParserError = (error: { type?: unknown }) => {
+  switch (error.type) {
+    case "entity.parse.failed":
+      return new BadRequestError("Request body is not valid JSON");
+    case "entity.too.large":
+      return new AppError(413, "PAYLOAD_TOO_LARGE", "Request body is too large");
+    default:
+      return null;
+  }
+};
+
+const toAppError = (error: unknown) => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return fromPrismaError(error);
+  }
+
+  if (error && typeof error === "object" && "type" in error) {
+    return fromBodyParserError(error);
+  }
+
+  return null;
+};
+
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
+  next(new NotFoundError(`Cannot ${req.method} ${req.path}`));
+};
+
+// Registered last. Every failed request leaves through here, so all errors
+// share the ErrorResponseSchema envelope and unexpected ones are logged
+// without leaking details.
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  // A streamed response can only be aborted once headers are out
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const appError = toAppError(error);
+
+  if (!appError) {
+    console.error(error);
+    const body: ErrorResponse = {
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Internal Server Error",
+    };
+    return res.status(500).json(body);
+  }
+
+  if (appError.retryAfterSeconds !== undefined) {
+    res.setHeader("Retry-After", appError.retryAfterSeconds);
+  }
+
+  const body: ErrorResponse = {
+    code: appError.code,
+    message: appError.message,
+    ...(appError.issues && { issues: appError.issues }),
+    ...(appError.retryAfterSeconds !== undefined && {
+      retryAfterSeconds: appError.retryAfterSeconds,
+    }),
+  };
+
+  res.status(appError.status).json(body);
+};
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from "express";
+import { getRateLimitStore } from "../utils/rate-limit-store";
+import { TooManyRequestsError } from "../utils/errors";
+import { getClientIp } from "../utils/client-ip";
+
+type RateLimitOptions = {
+  // Namespace for the counters, unique per limiter
+  name: string;
+  windowMs: number;
+  max: number;
+  key?: (req: Request) => string | undefined;
+};
+
+// Allows at most `max` requests per key (the client IP by default, see
+// getClientIp) in each window of `windowMs`.
+export const rateLimit =
+  ({ name, windowMs, max, key = getClientIp }: RateLimitOptions) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const value = key(req);
+
+    if (!value) {
+      return next();
+    }
+
+    const { count, resetAt } = await getRateLimitStore().increment(
+      `${name}:${value}`,
+      windowMs
+    );
+    const retryAfterSeconds = Math.ceil((resetAt - Date.now()) / 1000);
+
+    res.setHeader("RateLimit-Limit", max);
+    res.setHeader("RateLimit-Remaining", Math.max(0, max - count));
+    res.setHeader("RateLimit-Reset", retryAfterSeconds);
+
+    if (count > max) {
+      throw new TooManyRequestsError(
+        "Too many requests, please try again later",
+        retryAfterSeconds
+      );
+    }
+
+    next();
+  };
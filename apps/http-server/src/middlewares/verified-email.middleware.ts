@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from "express";
+import { prismaClient } from "@repo/db/client";
+import {
+  isVerificationRequired,
+  VerifiedFeature,
+} from "../services/email-verification.service";
+import { ForbiddenError } from "../utils/errors";
+
+// Must run after authMiddleware. Blocks unverified users from `feature` when
+// the verification policy covers it.
+export const requireVerifiedEmail =
+  (feature: VerifiedFeature) => async (req: Request, res: Response, next: NextFunction) => {
+    if (!isVerificationRequired(feature)) {
+      return next();
+    }
+
+    const user = await prismaClient.user.findUnique({
+      where: {
+        id: Number(req.userId),
+      },
+      select: {
+        emailVerifiedAt: true,
+      },
+    });
+
+    if (!user?.emailVerifiedAt) {
+      throw new ForbiddenError("Please verify your email address first", "EMAIL_NOT_VERIFIED");
+    }
+
+    next();
+  };
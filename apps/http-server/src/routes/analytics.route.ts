@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { analyticsContract } from "@repo/common/contracts";
+import {
+  getPacing,
+  getPerformanceSummary,
+  getWeakestTopics,
+  getWeeklyTrend,
+} from "../services/analytics.service";
+import { implement } from "../utils/contract";
+
+const router: Router = Router();
+
+implement(router, analyticsContract.routes.summary, async (req, res) => {
+  const summary = await getPerformanceSummary(Number(req.userId));
+
+  res.status(200).json(summary);
+});
+
+implement(router, analyticsContract.routes.trend, async (req, res) => {
+  const weeks = await getWeeklyTrend(Number(req.userId), req.query.weeks);
+
+  res.status(200).json({
+    weeks,
+  });
+});
+
+implement(router, analyticsContract.routes.weakestTopics, async (req, res) => {
+  const { limit, minAnswered } = req.query;
+  const topics = await getWeakestTopics(Number(req.userId), limit, minAnswered);
+
+  res.status(200).json({
+    topics,
+  });
+});
+
+implement(router, analyticsContract.routes.pacing, async (req, res) => {
+  const pacing = await getPacing(Number(req.userId));
+
+  res.status(200).json(pacing);
+});
+
+export default router;
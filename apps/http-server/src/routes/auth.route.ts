@@ -1,116 +1,240 @@
 import { Router } from "express";
 import { prismaClient } from "@repo/db/client";
-import { SignInSchema, SignUpSchema } from "@repo/common/types";
+import { authContract } from "@repo/common/contracts";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
-import { Request, Response } from "express";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { rateLimit } from "../middlewares/rate-limit.middleware";
+import {
+  createSession,
+  revokeSession,
+  rotateRefreshToken,
+} from "../services/session.service";
+import { requestPasswordReset, resetPassword } from "../services/password-reset.service";
+import {
+  resendVerificationEmail,
+  sendVerificationEmail,
+  verifyEmail,
+} from "../services/email-verification.service";
+import {
+  clearFailedSignIns,
+  getSignInLock,
+  recordFailedSignIn,
+} from "../services/sign-in-throttle.service";
+import { implement } from "../utils/contract";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "../utils/errors";
 
 const router: Router = Router();
 
-router.post("/sign-up", async (req: Request, res: Response) => {
-  try {
-    const parsedData = SignUpSchema.safeParse(req.body);
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
 
-    if (!parsedData.success) {
-      return res.status(400).json({
-        message: "Validation failed",
-        // errors: parsedData.error.flatten()
-        errors: parsedData.error,
-      });
-    }
+const ipRateLimit = rateLimit({ name: "auth-ip", windowMs: FIFTEEN_MINUTES, max: 30 });
 
-    const { name, email, password } = parsedData.data;
+const signInIpRateLimit = rateLimit({ name: "sign-in-ip", windowMs: FIFTEEN_MINUTES, max: 20 });
 
-    const existingUser = await prismaClient.user.findUnique({
-      where: {
-        email,
-      },
-    });
+const signInAccountRateLimit = rateLimit({
+  name: "sign-in-account",
+  windowMs: FIFTEEN_MINUTES,
+  max: 10,
+  key: (req) =>
+    typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined,
+});
 
-    if (existingUser) {
-      return res.status(409).json({
-        message: "Email already registered",
-      });
-    }
+// Compared against when the email is unknown, so both failure cases take the
+// same time and return the same response.
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("dummy-password-for-timing", 10);
 
-    const hashedPassword = await bcrypt.hash(password, 10);
+implement(router, authContract.routes.signUp, ipRateLimit, async (req, res) => {
+  const { name, email, password } = req.body;
 
-    const user = await prismaClient.user.create({
-      data: {
-        name,
-        email,
-        password: hashedPassword,
+  // Accounts created before emails were normalized may still have capitals
+  const existingUser = await prismaClient.user.findFirst({
+    where: {
+      email: {
+        equals: email,
+        mode: "insensitive",
       },
-    });
+    },
+  });
 
-    const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET!, {
-      expiresIn: "7d",
-    });
+  if (existingUser) {
+    throw new ConflictError("Email already registered", "EMAIL_ALREADY_REGISTERED");
+  }
 
-    res.status(201).json({
-      message: "User signed up successfully",
-      userId: user.id,
-      token,
-    });
-  } catch (error) {
-    console.error(error);
+  const hashedPassword = await bcrypt.hash(password, 10);
 
-    res.status(500).json({
-      message: "Internal Server Error",
-    });
-  }
-});
+  const user = await prismaClient.user.create({
+    data: {
+      name,
+      email,
+      password: hashedPassword,
+    },
+  });
 
-router.post("/sign-in", async (req: Request, res: Response) => {
-  try {
-    const parsedData = SignInSchema.safeParse(req.body);
+  // The account is usable even if the email fails; the user can resend it
+  await sendVerificationEmail(user).catch((error) => console.error(error));
 
-    if (!parsedData.success) {
-      return res.status(400).json({
-        message: "Validation failed",
-        errors: parsedData.error,
-      });
-    }
+  const { token, refreshToken } = await createSession(user.id);
 
-    const { email, password } = parsedData.data;
+  res.status(201).json({
+    message: "User signed up successfully",
+    userId: user.id,
+    emailVerified: false,
+    token,
+    refreshToken,
+  });
+});
+
+implement(
+  router,
+  authContract.routes.signIn,
+  signInIpRateLimit,
+  signInAccountRateLimit,
+  async (req, res) => {
+    const { email, password } = req.body;
+
+    const lockedForSeconds = await getSignInLock(email);
+
+    if (lockedForSeconds !== null) {
+      throw new TooManyRequestsError(
+        "Too many failed sign-in attempts, please try again later",
+        lockedForSeconds,
+        "ACCOUNT_LOCKED"
+      );
+    }
 
     const user = await prismaClient.user.findFirst({
       where: {
-        email,
+        email: {
+          equals: email,
+          mode: "insensitive",
+        },
       },
     });
 
-    if (!user) {
-      return res.status(404).json({
-        message: "User not found",
-      });
-    }
-
     const isPasswordValid = await bcrypt.compare(
       password,
-      user.password as string
+      user?.password ?? DUMMY_PASSWORD_HASH
     );
 
-    if (!isPasswordValid) {
-      return res.status(401).json({
-        message: "Invalid Credentials",
-      });
+    if (!user || !isPasswordValid) {
+      await recordFailedSignIn(email);
+
+      throw new UnauthorizedError("Invalid email or password", "INVALID_CREDENTIALS");
     }
 
-    const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET!, {
-      expiresIn: "7d",
-    });
+    await clearFailedSignIns(email);
+
+    const { token, refreshToken } = await createSession(user.id);
 
     res.status(200).json({
       message: "Signed in successfully",
+      emailVerified: user.emailVerifiedAt !== null,
       token,
+      refreshToken,
     });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      message: "Internal Server Error",
-    });
   }
+);
+
+implement(router, authContract.routes.refresh, ipRateLimit, async (req, res) => {
+  const result = await rotateRefreshToken(req.body.refreshToken);
+
+  if (result.status === "reused") {
+    throw new UnauthorizedError("Refresh token reuse detected, session revoked", "REFRESH_TOKEN_REUSED");
+  }
+
+  if (result.status === "invalid") {
+    throw new UnauthorizedError("Invalid or expired refresh token", "INVALID_REFRESH_TOKEN");
+  }
+
+  res.status(200).json({
+    message: "Token refreshed successfully",
+    ...result.tokens,
+  });
+});
+
+implement(router, authContract.routes.logout, authMiddleware, async (req, res) => {
+  await revokeSession(req.sessionId!);
+
+  res.status(200).json({
+    message: "Logged out successfully",
+  });
+});
+
+implement(router, authContract.routes.me, authMiddleware, async (req, res) => {
+  const user = await prismaClient.user.findUnique({
+    where: {
+      id: Number(req.userId),
+    },
+  });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.status(200).json({
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerifiedAt !== null,
+    },
+  });
+});
+
+implement(router, authContract.routes.forgotPassword, ipRateLimit, async (req, res) => {
+  await requestPasswordReset(req.body.email);
+
+  res.status(200).json({
+    message: "If that email is registered, a reset link has been sent",
+  });
+});
+
+implement(router, authContract.routes.resetPassword, ipRateLimit, async (req, res) => {
+  const { token, password } = req.body;
+
+  if (!(await resetPassword(token, password))) {
+    throw new BadRequestError("Invalid or expired reset token", "INVALID_OR_EXPIRED_TOKEN");
+  }
+
+  res.status(200).json({
+    message: "Password reset successfully",
+  });
+});
+
+implement(router, authContract.routes.verifyEmail, ipRateLimit, async (req, res) => {
+  if (!(await verifyEmail(req.body.token))) {
+    throw new BadRequestError("Invalid or expired verification token", "INVALID_OR_EXPIRED_TOKEN");
+  }
+
+  res.status(200).json({
+    message: "Email verified successfully",
+  });
+});
+
+implement(router, authContract.routes.resendVerification, authMiddleware, async (req, res) => {
+  const result = await resendVerificationEmail(Number(req.userId));
+
+  if (result.status === "already-verified") {
+    throw new ConflictError("Email already verified", "EMAIL_ALREADY_VERIFIED");
+  }
+
+  if (result.status === "throttled") {
+    throw new TooManyRequestsError(
+      "Too many verification emails, please try again later",
+      result.retryAfterSeconds
+    );
+  }
+
+  res.status(200).json({
+    message: "Verification email sent",
+  });
 });
 
 export default router;
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { buildOpenApiDocument } from "@repo/common/openapi";
+
+const router: Router = Router();
+
+// Generated once at startup from the same contracts the routes are
+// registered with, so new routes appear without touching this file.
+const openApiDocument = buildOpenApiDocument({
+  title: "Aptitude API",
+  version: "1.0.0",
+  description: "Aptitude test practice: accounts, timed tests and the admin question bank.",
+});
+
+// The reference UI is pinned to an exact release and checked against its
+// hash, so a new upstream publish cannot run script on the API's origin.
+// Update both together when upgrading.
+const API_REFERENCE_SCRIPT = {
+  src: "https://cdn.jsdelivr.net/npm/@scalar/api-reference@1.72.1/dist/browser/standalone.js",
+  integrity: "sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK",
+};
+
+const DOCS_PAGE = `<!doctype html>
+<html>
+  <head>
+    <title>Aptitude API reference</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="/api/v1/openapi.json"></script>
+    <script
+      src="${API_REFERENCE_SCRIPT.src}"
+      integrity="${API_REFERENCE_SCRIPT.integrity}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>`;
+
+router.get("/openapi.json", (req, res) => {
+  res.status(200).json(openApiDocument);
+});
+
+router.get("/docs", (req, res) => {
+  res.status(200).type("html").send(DOCS_PAGE);
+});
+
+export default router;
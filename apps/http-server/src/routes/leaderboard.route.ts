@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { leaderboardContract } from "@repo/common/contracts";
+import { requireVerifiedEmail } from "../middlewares/verified-email.middleware";
+import { getLeaderboard } from "../services/leaderboard.service";
+import { implement } from "../utils/contract";
+
+const router: Router = Router();
+
+implement(
+  router,
+  leaderboardContract.routes.get,
+  requireVerifiedEmail("leaderboards"),
+  async (req, res) => {
+    const leaderboard = await getLeaderboard(Number(req.userId), req.query);
+
+    res.status(200).json(leaderboard);
+  }
+);
+
+export default router;
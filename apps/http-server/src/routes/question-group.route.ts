@@ -0,0 +1,170 @@
+import { Router } from "express";
+import { Prisma, prismaClient } from "@repo/db/client";
+import { AnswerKey, CreateQuestionGroupSchema, QuestionOption } from "@repo/common/types";
+import { questionGroupContract } from "@repo/common/contracts";
+import { serializeStimulus } from "../services/question-group.service";
+import { implement } from "../utils/contract";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+
+const router: Router = Router();
+
+const withQuestionCount = {
+  _count: {
+    select: {
+      questions: {
+        where: {
+          deletedAt: null,
+        },
+      },
+    },
+  },
+} satisfies Prisma.QuestionGroupInclude;
+
+const serializeQuestionGroup = (
+  group: Prisma.QuestionGroupGetPayload<{ include: typeof withQuestionCount }>
+) => ({
+  ...serializeStimulus(group),
+  questionCount: group._count.questions,
+  createdAt: group.createdAt,
+  updatedAt: group.updatedAt,
+  deletedAt: group.deletedAt,
+});
+
+// Prisma needs DbNull rather than null to clear a Json column
+const toStimulusData = <T extends { table?: unknown; chart?: unknown }>(data: T) => ({
+  ...data,
+  ...(data.table === null && { table: Prisma.DbNull }),
+  ...(data.chart === null && { chart: Prisma.DbNull }),
+});
+
+implement(router, questionGroupContract.routes.create, async (req, res) => {
+  const group = await prismaClient.questionGroup.create({
+    data: toStimulusData(req.body),
+    include: withQuestionCount,
+  });
+
+  res.status(201).json({
+    message: "Question group created successfully",
+    questionGroup: serializeQuestionGroup(group),
+  });
+});
+
+implement(router, questionGroupContract.routes.list, async (req, res) => {
+  const groups = await prismaClient.questionGroup.findMany({
+    where: {
+      deletedAt: null,
+    },
+    orderBy: {
+      id: "asc",
+    },
+    include: withQuestionCount,
+  });
+
+  res.status(200).json({
+    questionGroups: groups.map(serializeQuestionGroup),
+  });
+});
+
+implement(router, questionGroupContract.routes.get, async (req, res) => {
+  const group = await prismaClient.questionGroup.findUnique({
+    where: {
+      id: req.params.questionGroupId,
+    },
+    include: withQuestionCount,
+  });
+
+  if (!group) {
+    throw new NotFoundError("Question group not found");
+  }
+
+  const questions = await prismaClient.question.findMany({
+    where: {
+      groupId: group.id,
+      deletedAt: null,
+    },
+    orderBy: [{ groupPosition: "asc" }, { id: "asc" }],
+  });
+
+  res.status(200).json({
+    questionGroup: serializeQuestionGroup(group),
+    questions: questions.map((question) => ({
+      ...question,
+      options: question.options as QuestionOption[],
+      answer: question.answer as AnswerKey,
+    })),
+  });
+});
+
+implement(router, questionGroupContract.routes.update, async (req, res) => {
+  const existing = await prismaClient.questionGroup.findFirst({
+    where: {
+      id: req.params.questionGroupId,
+      deletedAt: null,
+    },
+  });
+
+  if (!existing) {
+    throw new NotFoundError("Question group not found");
+  }
+
+  // Validate the merged group so an update cannot remove its only stimulus
+  const merged = CreateQuestionGroupSchema.safeParse({
+    title: existing.title,
+    passage: existing.passage,
+    table: existing.table,
+    chart: existing.chart,
+    ...req.body,
+  });
+
+  if (!merged.success) {
+    throw ValidationError.fromZodError(merged.error);
+  }
+
+  const group = await prismaClient.questionGroup.update({
+    where: {
+      id: existing.id,
+    },
+    data: toStimulusData(merged.data),
+    include: withQuestionCount,
+  });
+
+  res.status(200).json({
+    message: "Question group updated successfully",
+    questionGroup: serializeQuestionGroup(group),
+  });
+});
+
+// Tests already taken keep showing the stimulus, so groups are only
+// soft-deleted, and only once their questions are deleted or moved.
+implement(router, questionGroupContract.routes.delete, async (req, res) => {
+  const group = await prismaClient.questionGroup.findFirst({
+    where: {
+      id: req.params.questionGroupId,
+      deletedAt: null,
+    },
+    include: withQuestionCount,
+  });
+
+  if (!group) {
+    throw new NotFoundError("Question group not found");
+  }
+
+  if (group._count.questions > 0) {
+    throw new ConflictError("Delete or move the questions of this group first");
+  }
+
+  await prismaClient.questionGroup.update({
+    where: {
+      id: group.id,
+    },
+    data: {
+      deletedAt: new Date(),
+    },
+  });
+
+  res.status(200).json({
+    message: "Question group deleted successfully",
+  });
+});
+
+export default router;
@@ -0,0 +1,217 @@
+import express, { Router } from "express";
+import { prismaClient } from "@repo/db/client";
+import { ImportFileError, importQuestions } from "@repo/db/question-import";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FILE_EXTENSIONS,
+  exportQuestions,
+  toQuestionWhere,
+} from "@repo/db/question-export";
+import { AnswerKey, CreateQuestionSchema, QuestionOption } from "@repo/common/types";
+import { questionContract } from "@repo/common/contracts";
+import { implement } from "../utils/contract";
+import { BadRequestError, NotFoundError, ValidationError } from "../utils/errors";
+
+const router: Router = Router();
+
+// Questions can only join a group that has not been deleted
+const assertGroupExists = async (groupId: number | null | undefined) => {
+  if (groupId === null || groupId === undefined) {
+    return;
+  }
+
+  const group = await prismaClient.questionGroup.findFirst({
+    where: {
+      id: groupId,
+      deletedAt: null,
+    },
+  });
+
+  if (!group) {
+    throw new NotFoundError("Question group not found");
+  }
+};
+
+// Options and answers are checked against CreateQuestionSchema on every
+// write, so the stored JSON can be typed as such on the way out.
+const serializeQuestion = <T extends { options: unknown; answer: unknown }>(question: T) => ({
+  ...question,
+  options: question.options as QuestionOption[],
+  answer: question.answer as AnswerKey,
+});
+
+implement(router, questionContract.routes.create, async (req, res) => {
+  await assertGroupExists(req.body.groupId);
+
+  const question = await prismaClient.question.create({
+    data: req.body,
+  });
+
+  res.status(201).json({
+    message: "Question created successfully",
+    question: serializeQuestion(question),
+  });
+});
+
+// Question files are sent inline, so imports get a larger body limit. It is
+// only applied here, after the admin check the router is mounted behind.
+const importBodyParser = express.json({ limit: "10mb" });
+
+implement(router, questionContract.routes.import, importBodyParser, async (req, res) => {
+  const { content, ...options } = req.body;
+
+  let report;
+
+  try {
+    report = await importQuestions(content, options);
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      throw new BadRequestError(error.message);
+    }
+    throw error;
+  }
+
+  res.status(report.committed ? 201 : 200).json({
+    message: report.committed
+      ? "Questions imported successfully"
+      : report.dryRun
+        ? "Dry run completed"
+        : "Import failed validation, nothing was imported",
+    report,
+  });
+});
+
+implement(router, questionContract.routes.list, async (req, res) => {
+  const { page, pageSize, includeDeleted, ...filter } = req.query;
+
+  const where = {
+    ...toQuestionWhere(filter),
+    ...(!includeDeleted && { deletedAt: null }),
+  };
+
+  const [questions, total] = await prismaClient.$transaction([
+    prismaClient.question.findMany({
+      where,
+      orderBy: {
+        id: "asc",
+      },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prismaClient.question.count({ where }),
+  ]);
+
+  res.status(200).json({
+    questions: questions.map(serializeQuestion),
+    pagination: {
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  });
+});
+
+implement(router, questionContract.routes.export, async (req, res) => {
+  const { format, ...filter } = req.query;
+
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="questions.${EXPORT_FILE_EXTENSIONS[format]}"`
+  );
+
+  const stream = exportQuestions(format, filter);
+
+  // Headers are already sent once streaming starts, so a failure can only
+  // abort the response.
+  stream.on("error", (error) => {
+    console.error(error);
+    res.destroy(error);
+  });
+
+  stream.pipe(res);
+});
+
+implement(router, questionContract.routes.get, async (req, res) => {
+  const question = await prismaClient.question.findUnique({
+    where: {
+      id: req.params.questionId,
+    },
+  });
+
+  if (!question) {
+    throw new NotFoundError("Question not found");
+  }
+
+  res.status(200).json({
+    question: serializeQuestion(question),
+  });
+});
+
+implement(router, questionContract.routes.update, async (req, res) => {
+  const existing = await prismaClient.question.findFirst({
+    where: {
+      id: req.params.questionId,
+      deletedAt: null,
+    },
+  });
+
+  if (!existing) {
+    throw new NotFoundError("Question not found");
+  }
+
+  // Validate the merged question so a partial update cannot leave the
+  // answer pointing outside the options or in the shape of another type.
+  const merged = CreateQuestionSchema.safeParse({
+    type: existing.type,
+    text: existing.text,
+    options: existing.options,
+    answer: existing.answer,
+    difficulty: existing.difficulty,
+    topic: existing.topic,
+    tags: existing.tags,
+    explanation: existing.explanation,
+    ...req.body,
+  });
+
+  if (!merged.success) {
+    throw ValidationError.fromZodError(merged.error);
+  }
+
+  await assertGroupExists(req.body.groupId);
+
+  const question = await prismaClient.question.update({
+    where: {
+      id: existing.id,
+    },
+    data: merged.data,
+  });
+
+  res.status(200).json({
+    message: "Question updated successfully",
+    question: serializeQuestion(question),
+  });
+});
+
+implement(router, questionContract.routes.delete, async (req, res) => {
+  const { count } = await prismaClient.question.updateMany({
+    where: {
+      id: req.params.questionId,
+      deletedAt: null,
+    },
+    data: {
+      deletedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError("Question not found");
+  }
+
+  res.status(200).json({
+    message: "Question deleted successfully",
+  });
+});
+
+export default router;
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { AnswerKey } from "@repo/common/types";
+import { reviewContract } from "@repo/common/contracts";
+import { checkResponse, gradeResponse } from "../services/grading.service";
+import {
+  findUserReviewItem,
+  getDueReviews,
+  recordReview,
+  serializeReviewSchedule,
+} from "../services/review.service";
+import { implement } from "../utils/contract";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+
+const router: Router = Router();
+
+implement(router, reviewContract.routes.due, async (req, res) => {
+  const queue = await getDueReviews(Number(req.userId), req.query.limit);
+
+  res.status(200).json(queue);
+});
+
+implement(router, reviewContract.routes.answer, async (req, res) => {
+  const item = await findUserReviewItem(req.params.reviewItemId, Number(req.userId));
+
+  if (!item) {
+    throw new NotFoundError("Review item not found");
+  }
+
+  const invalid = checkResponse(item.question, req.body.answer);
+
+  if (invalid) {
+    throw new BadRequestError(invalid);
+  }
+
+  // Partly right is not recalled, so only a fully right answer counts
+  const credit = gradeResponse(item.question, req.body.answer);
+  const isCorrect = credit === 1;
+  const reviewed = await recordReview(item, isCorrect, req.body.confidence);
+
+  if (!reviewed) {
+    throw new ConflictError("This review was already recorded");
+  }
+
+  res.status(200).json({
+    isCorrect,
+    credit,
+    answer: item.question.answer as AnswerKey,
+    item: serializeReviewSchedule(reviewed),
+  });
+});
+
+export default router;
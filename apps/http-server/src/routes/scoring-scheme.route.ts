@@ -0,0 +1,85 @@
+import { Router } from "express";
+import { Prisma, prismaClient } from "@repo/db/client";
+import { scoringSchemeContract } from "@repo/common/contracts";
+import { adminMiddleware } from "../middlewares/admin.middleware";
+import { getScoringRules } from "../services/scoring.service";
+import { implement } from "../utils/contract";
+import { NotFoundError } from "../utils/errors";
+
+const router: Router = Router();
+
+const serializeScoringScheme = (scheme: Prisma.ScoringSchemeGetPayload<object>) => ({
+  id: scheme.id,
+  name: scheme.name,
+  description: scheme.description,
+  rules: getScoringRules(scheme.rules),
+  createdAt: scheme.createdAt,
+  updatedAt: scheme.updatedAt,
+});
+
+implement(router, scoringSchemeContract.routes.list, async (req, res) => {
+  const schemes = await prismaClient.scoringScheme.findMany({
+    orderBy: {
+      name: "asc",
+    },
+  });
+
+  res.status(200).json({
+    scoringSchemes: schemes.map(serializeScoringScheme),
+  });
+});
+
+implement(router, scoringSchemeContract.routes.create, adminMiddleware, async (req, res) => {
+  const scheme = await prismaClient.scoringScheme.create({
+    data: req.body,
+  });
+
+  res.status(201).json({
+    message: "Scoring scheme created successfully",
+    scoringScheme: serializeScoringScheme(scheme),
+  });
+});
+
+// Tests keep a copy of the rules they were started with, so editing or
+// deleting a scheme never re-marks them.
+implement(router, scoringSchemeContract.routes.update, adminMiddleware, async (req, res) => {
+  const { count } = await prismaClient.scoringScheme.updateMany({
+    where: {
+      id: req.params.scoringSchemeId,
+    },
+    data: req.body,
+  });
+
+  if (count === 0) {
+    throw new NotFoundError("Scoring scheme not found");
+  }
+
+  const scheme = await prismaClient.scoringScheme.findUniqueOrThrow({
+    where: {
+      id: req.params.scoringSchemeId,
+    },
+  });
+
+  res.status(200).json({
+    message: "Scoring scheme updated successfully",
+    scoringScheme: serializeScoringScheme(scheme),
+  });
+});
+
+implement(router, scoringSchemeContract.routes.delete, adminMiddleware, async (req, res) => {
+  const { count } = await prismaClient.scoringScheme.deleteMany({
+    where: {
+      id: req.params.scoringSchemeId,
+    },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError("Scoring scheme not found");
+  }
+
+  res.status(200).json({
+    message: "Scoring scheme deleted successfully",
+  });
+});
+
+export default router;
@@ -0,0 +1,258 @@
+import { Router } from "express";
+import { prismaClient } from "@repo/db/client";
+import { testContract } from "@repo/common/contracts";
+import {
+  finalizeIfExpired,
+  findUserTest,
+  getRemainingSeconds,
+  getTestResults,
+  isExpired,
+  pickQuestionIds,
+  saveAnswer,
+  scoreTest,
+  serializeTest,
+} from "../services/test.service";
+import { advanceAdaptiveTest, pickAdaptiveQuestionId } from "../services/adaptive.service";
+import { recordQuestionEvents } from "../services/question-events.service";
+import { checkResponse } from "../services/grading.service";
+import { getScoringRules } from "../services/scoring.service";
+import { requireVerifiedEmail } from "../middlewares/verified-email.middleware";
+import { implement } from "../utils/contract";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+
+const router: Router = Router();
+
+implement(router, testContract.routes.create, requireVerifiedEmail("tests"), async (req, res) => {
+  const { mode, topic, subject, questionCount, timeLimit, scoringSchemeId } = req.body;
+  const userId = Number(req.userId);
+
+  const scoringScheme = scoringSchemeId
+    ? await prismaClient.scoringScheme.findUnique({ where: { id: scoringSchemeId } })
+    : null;
+
+  if (scoringSchemeId && !scoringScheme) {
+    throw new NotFoundError("Scoring scheme not found");
+  }
+
+  // Adaptive tests start with one question matched to an average ability;
+  // the rest are chosen as the user answers.
+  const questionIds =
+    mode === "ADAPTIVE"
+      ? [
+          await pickAdaptiveQuestionId({
+            theta: 0,
+            subject: topic === "TOPICWISE" ? subject : null,
+          }),
+        ].filter((id) => id !== null)
+      : await pickQuestionIds(req.body);
+
+  if (questionIds.length === 0) {
+    throw new NotFoundError("No questions available for the selected mode and topic");
+  }
+
+  const startedAt = new Date();
+
+  const created = await prismaClient.test.create({
+    data: {
+      userId,
+      mode,
+      topic,
+      subject: topic === "TOPICWISE" ? subject : null,
+      timeLimit,
+      questionCount: mode === "ADAPTIVE" ? questionCount : null,
+      scoringSchemeId: scoringScheme?.id,
+      // A copy, so later edits to the scheme don't change how this test is marked
+      scoringRules: getScoringRules(scoringScheme?.rules),
+      startedAt,
+      endsAt: timeLimit ? new Date(startedAt.getTime() + timeLimit * 1000) : null,
+      testQuestions: {
+        create: questionIds.map((questionId) => ({ questionId })),
+      },
+    },
+  });
+
+  const test = await findUserTest(created.id, userId);
+
+  res.status(201).json({
+    message: "Test created successfully",
+    test: serializeTest(test!),
+  });
+});
+
+implement(router, testContract.routes.get, async (req, res) => {
+  const test = await findUserTest(req.params.testId, Number(req.userId));
+
+  if (!test) {
+    throw new NotFoundError("Test not found");
+  }
+
+  res.status(200).json({
+    test: serializeTest(await finalizeIfExpired(test)),
+  });
+});
+
+implement(router, testContract.routes.time, async (req, res) => {
+  const test = await findUserTest(req.params.testId, Number(req.userId));
+
+  if (!test) {
+    throw new NotFoundError("Test not found");
+  }
+
+  const current = await finalizeIfExpired(test);
+
+  res.status(200).json({
+    serverTime: new Date(),
+    startedAt: current.startedAt,
+    endsAt: current.endsAt,
+    remainingSeconds: getRemainingSeconds(current),
+    submittedAt: current.submittedAt,
+  });
+});
+
+// Loads a test that is still in progress, i.e. one whose answers can still
+// change.
+const findOpenTest = async (testId: number, userId: number) => {
+  const test = await findUserTest(testId, userId);
+
+  if (!test) {
+    throw new NotFoundError("Test not found");
+  }
+
+  if (test.submittedAt) {
+    throw new ConflictError("Test already submitted", "TEST_ALREADY_SUBMITTED");
+  }
+
+  if (isExpired(test)) {
+    await finalizeIfExpired(test);
+
+    throw new ConflictError("Time limit exceeded, test has been submitted", "TEST_TIME_EXPIRED");
+  }
+
+  return test;
+};
+
+const findOpenTestQuestion = async (testId: number, testQuestionId: number, userId: number) => {
+  const test = await findOpenTest(testId, userId);
+  const testQuestion = test.testQuestions.find(({ id }) => id === testQuestionId);
+
+  if (!testQuestion) {
+    throw new NotFoundError("Question not found in this test");
+  }
+
+  return { test, testQuestion };
+};
+
+implement(router, testContract.routes.answer, async (req, res) => {
+  const { test, testQuestion } = await findOpenTestQuestion(
+    req.params.testId,
+    req.params.testQuestionId,
+    Number(req.userId)
+  );
+
+  const invalid = checkResponse(testQuestion.question, req.body.answer);
+
+  if (invalid) {
+    throw new BadRequestError(invalid);
+  }
+
+  // Each answer of an adaptive test steers the next question, so it is final
+  const adaptive = test.mode === "ADAPTIVE";
+  const saved = await saveAnswer(testQuestion, req.body, { final: adaptive });
+
+  if (!saved) {
+    throw new ConflictError("Answers in an adaptive test cannot be changed");
+  }
+
+  if (adaptive) {
+    await advanceAdaptiveTest(test.id, test.userId);
+  }
+
+  res.status(200).json({
+    message: "Answer saved",
+  });
+});
+
+implement(router, testContract.routes.events, async (req, res) => {
+  const test = await findOpenTest(req.params.testId, Number(req.userId));
+  const testQuestionIds = new Set(test.testQuestions.map(({ id }) => id));
+
+  if (req.body.events.some((event) => !testQuestionIds.has(event.testQuestionId))) {
+    throw new NotFoundError("Question not found in this test");
+  }
+
+  await recordQuestionEvents(test, req.body.events);
+
+  res.status(200).json({
+    message: "Events recorded",
+  });
+});
+
+implement(router, testContract.routes.flag, async (req, res) => {
+  const { testQuestion } = await findOpenTestQuestion(
+    req.params.testId,
+    req.params.testQuestionId,
+    Number(req.userId)
+  );
+
+  await prismaClient.testQuestion.update({
+    where: {
+      id: testQuestion.id,
+    },
+    data: {
+      flagged: req.body.flagged,
+    },
+  });
+
+  res.status(200).json({
+    message: req.body.flagged ? "Question marked for review" : "Question unmarked",
+  });
+});
+
+implement(router, testContract.routes.results, async (req, res) => {
+  const test = await findUserTest(req.params.testId, Number(req.userId));
+
+  if (!test) {
+    throw new NotFoundError("Test not found");
+  }
+
+  const current = await finalizeIfExpired(test);
+
+  if (!current.submittedAt) {
+    throw new ConflictError(
+      "Results are available once the test is submitted",
+      "TEST_NOT_SUBMITTED"
+    );
+  }
+
+  res.status(200).json(getTestResults({ ...current, submittedAt: current.submittedAt }));
+});
+
+implement(router, testContract.routes.submit, async (req, res) => {
+  const test = await findUserTest(req.params.testId, Number(req.userId));
+
+  if (!test) {
+    throw new NotFoundError("Test not found");
+  }
+
+  if (test.submittedAt) {
+    throw new ConflictError("Test already submitted", "TEST_ALREADY_SUBMITTED");
+  }
+
+  if (isExpired(test)) {
+    const finalized = await finalizeIfExpired(test);
+
+    return res.status(200).json({
+      message: "Time limit exceeded, test was submitted automatically",
+      test: serializeTest(finalized),
+    });
+  }
+
+  const scored = await scoreTest(test);
+
+  res.status(200).json({
+    message: "Test submitted successfully",
+    test: serializeTest(scored),
+  });
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import { prismaClient } from "@repo/db/client";
+import { getItemParameters, itemInformation } from "@repo/db/irt";
+import { TopicSchema } from "@repo/common/types";
+import { z } from "zod";
+import { estimateTestAbility, findUserTest } from "./test.service";
+
+type Topic = z.infer<typeof TopicSchema>;
+
+// The next question is drawn at random from this many of the most
+// informative candidates, so the same few questions are not served to
+// everyone of similar ability.
+const EXPOSURE_POOL_SIZE = 5;
+
+// Picks the question that best discriminates around `theta`, or null when
+// the question bank is exhausted. Questions on a shared passage or data set
+// are left out, as adaptive tests serve one question at a time.
+export const pickAdaptiveQuestionId = async ({
+  theta,
+  subject,
+  excludeIds = [],
+}: {
+  theta: number;
+  subject?: Topic | null;
+  excludeIds?: number[];
+}) => {
+  const candidates = await prismaClient.question.findMany({
+    where: {
+      deletedAt: null,
+      groupId: null,
+      id: {
+        notIn: excludeIds,
+      },
+      ...(subject && { topic: subject }),
+    },
+    select: {
+      id: true,
+      difficulty: true,
+      irtDifficulty: true,
+      irtDiscrimination: true,
+    },
+  });
+
+  const pool = candidates
+    .map((question) => ({
+      id: question.id,
+      information: itemInformation(theta, getItemParameters(question)),
+    }))
+    .sort((a, b) => b.information - a.information)
+    .slice(0, EXPOSURE_POOL_SIZE);
+
+  return pool[Math.floor(Math.random() * pool.length)]?.id ?? null;
+};
+
+// Serves the next question of an adaptive test after an answer, unless the
+// test has reached its planned length.
+export const advanceAdaptiveTest = async (testId: number, userId: number) => {
+  const test = await findUserTest(testId, userId);
+
+  if (!test || test.submittedAt || test.testQuestions.length >= (test.questionCount ?? 0)) {
+    return;
+  }
+
+  const questionId = await pickAdaptiveQuestionId({
+    theta: estimateTestAbility(test).estimate,
+    subject: test.subject,
+    excludeIds: test.testQuestions.map(({ questionId }) => questionId),
+  });
+
+  // With no questions left the test simply ends early
+  if (questionId !== null) {
+    await prismaClient.testQuestion.create({
+      data: {
+        testId: test.id,
+        questionId,
+      },
+    });
+  }
+};
@@ -0,0 +1,181 @@
+import { prismaClient, Prisma } from "@repo/db/client";
+import { DifficultySchema, TopicSchema } from "@repo/common/types";
+import { z } from "zod";
+
+type Topic = z.infer<typeof TopicSchema>;
+type Difficulty = z.infer<typeof DifficultySchema>;
+
+// All figures cover submitted tests only. A question's time is how long the
+// test page reported it on screen; questions without reported views (older
+// tests, other clients) get an even share of their test's duration instead.
+
+export type PerformanceStats = {
+  questions: number;
+  answered: number;
+  correct: number;
+  // correct / questions, null when there is nothing to measure
+  accuracy: number | null;
+  averageSeconds: number | null;
+};
+
+type StatsRow<K> = PerformanceStats & { key: K };
+
+// One row per submitted test question with its share of the test duration
+const questionTimes = (userId: number) => Prisma.sql`
+  WITH "submittedTest" AS (
+    SELECT t."id",
+      EXTRACT(EPOCH FROM (t."submittedAt" - t."startedAt"))
+        / NULLIF(COUNT(tq."id"), 0) AS "secondsPerQuestion"
+    FROM "public"."Test" t
+    JOIN "public"."TestQuestion" tq ON tq."testId" = t."id"
+    WHERE t."userId" = ${userId} AND t."submittedAt" IS NOT NULL
+    GROUP BY t."id"
+  )
+`;
+
+const questionSeconds = Prisma.sql`
+  CASE WHEN tq."firstViewedAt" IS NOT NULL THEN tq."timeSpentMs" / 1000.0
+    ELSE st."secondsPerQuestion" END
+`;
+
+const statsColumns = Prisma.sql`
+  COUNT(*)::int AS "questions",
+  COUNT(tq."userAnswer")::int AS "answered",
+  COUNT(*) FILTER (WHERE tq."isCorrect")::int AS "correct",
+  (COUNT(*) FILTER (WHERE tq."isCorrect"))::float8 / NULLIF(COUNT(*), 0) AS "accuracy",
+  AVG(${questionSeconds})::float8 AS "averageSeconds"
+`;
+
+// `groupBy` is one of the fixed expressions below, never user input
+const statsBy = <K>(userId: number, groupBy: Prisma.Sql) =>
+  prismaClient.$queryRaw<StatsRow<K>[]>`
+    ${questionTimes(userId)}
+    SELECT ${groupBy} AS "key", ${statsColumns}
+    FROM "submittedTest" st
+    JOIN "public"."TestQuestion" tq ON tq."testId" = st."id"
+    JOIN "public"."Question" q ON q."id" = tq."questionId"
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+const toStats = (row: StatsRow<unknown>): PerformanceStats => ({
+  questions: row.questions,
+  answered: row.answered,
+  correct: row.correct,
+  accuracy: row.accuracy,
+  averageSeconds: row.averageSeconds,
+});
+
+export const getPerformanceSummary = async (userId: number) => {
+  const [overall, byTopic, byDifficulty] = await Promise.all([
+    statsBy<null>(userId, Prisma.sql`NULL::text`),
+    statsBy<Topic>(userId, Prisma.sql`q."topic"::text`),
+    statsBy<Difficulty>(userId, Prisma.sql`q."difficulty"::text`),
+  ]);
+
+  return {
+    overall: overall[0]
+      ? toStats(overall[0])
+      : { questions: 0, answered: 0, correct: 0, accuracy: null, averageSeconds: null },
+    byTopic: byTopic.map((row) => ({ topic: row.key, ...toStats(row) })),
+    byDifficulty: byDifficulty.map((row) => ({ difficulty: row.key, ...toStats(row) })),
+  };
+};
+
+type WeekRow = PerformanceStats & { weekStart: Date; tests: number };
+
+// Timestamps are stored in UTC, so weeks run Monday to Sunday UTC. Weeks
+// without a submitted test are omitted.
+export const getWeeklyTrend = (userId: number, weeks: number) =>
+  prismaClient.$queryRaw<WeekRow[]>`
+    ${questionTimes(userId)}
+    SELECT
+      date_trunc('week', t."submittedAt") AS "weekStart",
+      COUNT(DISTINCT t."id")::int AS "tests",
+      ${statsColumns}
+    FROM "submittedTest" st
+    JOIN "public"."Test" t ON t."id" = st."id"
+    JOIN "public"."TestQuestion" tq ON tq."testId" = st."id"
+    WHERE t."submittedAt" >= date_trunc('week', now() AT TIME ZONE 'UTC')
+      - make_interval(weeks => ${weeks - 1}::int)
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+export const getWeakestTopics = async (userId: number, limit: number, minAnswered: number) => {
+  const byTopic = await statsBy<Topic>(userId, Prisma.sql`q."topic"::text`);
+
+  return byTopic
+    .map((row) => ({ topic: row.key, ...toStats(row) }))
+    .filter((topic) => topic.answered >= minAnswered && topic.accuracy !== null)
+    .sort((a, b) => a.accuracy! - b.accuracy! || b.answered - a.answered)
+    .slice(0, limit);
+};
+
+export type PacingStats = {
+  // Questions with reported timing
+  questions: number;
+  averageSeconds: number | null;
+  // Comparing these shows whether mistakes come from rushing or stalling
+  averageSecondsCorrect: number | null;
+  averageSecondsWrong: number | null;
+  averageAnswerChanges: number | null;
+  // Questions whose answer was changed at least once
+  changedAnswers: number;
+};
+
+type PacingRow<K> = PacingStats & { key: K };
+
+// Only questions the test page reported views for carry timing
+const pacingBy = <K>(userId: number, groupBy: Prisma.Sql) =>
+  prismaClient.$queryRaw<PacingRow<K>[]>`
+    SELECT ${groupBy} AS "key",
+      COUNT(*)::int AS "questions",
+      (AVG(tq."timeSpentMs") / 1000)::float8 AS "averageSeconds",
+      (AVG(tq."timeSpentMs") FILTER (WHERE tq."isCorrect") / 1000)::float8
+        AS "averageSecondsCorrect",
+      (AVG(tq."timeSpentMs") FILTER (WHERE NOT tq."isCorrect" AND tq."userAnswer" IS NOT NULL)
+        / 1000)::float8 AS "averageSecondsWrong",
+      AVG(tq."answerChanges")::float8 AS "averageAnswerChanges",
+      COUNT(*) FILTER (WHERE tq."answerChanges" > 0)::int AS "changedAnswers"
+    FROM "public"."Test" t
+    JOIN "public"."TestQuestion" tq ON tq."testId" = t."id"
+    JOIN "public"."Question" q ON q."id" = tq."questionId"
+    WHERE t."userId" = ${userId}
+      AND t."submittedAt" IS NOT NULL
+      AND tq."firstViewedAt" IS NOT NULL
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+const toPacing = (row: PacingRow<unknown>): PacingStats => ({
+  questions: row.questions,
+  averageSeconds: row.averageSeconds,
+  averageSecondsCorrect: row.averageSecondsCorrect,
+  averageSecondsWrong: row.averageSecondsWrong,
+  averageAnswerChanges: row.averageAnswerChanges,
+  changedAnswers: row.changedAnswers,
+});
+
+export const getPacing = async (userId: number) => {
+  const [overall, byTopic, byDifficulty] = await Promise.all([
+    pacingBy<null>(userId, Prisma.sql`NULL::text`),
+    pacingBy<Topic>(userId, Prisma.sql`q."topic"::text`),
+    pacingBy<Difficulty>(userId, Prisma.sql`q."difficulty"::text`),
+  ]);
+
+  return {
+    overall: overall[0]
+      ? toPacing(overall[0])
+      : {
+          questions: 0,
+          averageSeconds: null,
+          averageSecondsCorrect: null,
+          averageSecondsWrong: null,
+          averageAnswerChanges: null,
+          changedAnswers: 0,
+        },
+    byTopic: byTopic.map((row) => ({ topic: row.key, ...toPacing(row) })),
+    byDifficulty: byDifficulty.map((row) => ({ difficulty: row.key, ...toPacing(row) })),
+  };
+};
@@ -0,0 +1,131 @@
+import { prismaClient } from "@repo/db/client";
+import { generateToken, hashToken } from "../utils/token";
+import { sendMail } from "./mail.service";
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_EMAILS_PER_HOUR = 5;
+
+// Features that can be restricted to users with a verified email
+export type VerifiedFeature = "tests" | "leaderboards";
+
+// Comma separated list in VERIFIED_EMAIL_REQUIRED_FOR, e.g. "tests,leaderboards".
+// Set it to an empty string to let unverified users use everything.
+export const isVerificationRequired = (feature: VerifiedFeature) =>
+  (process.env.VERIFIED_EMAIL_REQUIRED_FOR ?? "tests,leaderboards")
+    .split(",")
+    .map((value) => value.trim())
+    .includes(feature);
+
+const appUrl = () => process.env.APP_URL ?? "http://localhost:3001";
+
+export const sendVerificationEmail = async (user: { id: number; name: string; email: string }) => {
+  const token = generateToken();
+
+  await prismaClient.emailVerificationToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+    },
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email",
+    text: `Hi ${user.name},\n\nConfirm your email address using the link below. It expires in 24 hours.\n\n${appUrl()}/verify-email?token=${token}`,
+  });
+};
+
+export type ResendResult =
+  | { status: "sent" }
+  | { status: "already-verified" }
+  | { status: "throttled"; retryAfterSeconds: number };
+
+// Sends a fresh verification email, at most once a minute and
+// MAX_EMAILS_PER_HOUR times an hour per user.
+export const resendVerificationEmail = async (userId: number): Promise<ResendResult> => {
+  const user = await prismaClient.user.findUniqueOrThrow({
+    where: {
+      id: userId,
+    },
+  });
+
+  if (user.emailVerifiedAt) {
+    return { status: "already-verified" };
+  }
+
+  const now = Date.now();
+  const recent = await prismaClient.emailVerificationToken.findMany({
+    where: {
+      userId,
+      createdAt: {
+        gt: new Date(now - 60 * 60 * 1000),
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      createdAt: true,
+    },
+  });
+
+  const latest = recent[0];
+
+  if (latest && now - latest.createdAt.getTime() < RESEND_COOLDOWN_MS) {
+    return {
+      status: "throttled",
+      retryAfterSeconds: Math.ceil((latest.createdAt.getTime() + RESEND_COOLDOWN_MS - now) / 1000),
+    };
+  }
+
+  const oldest = recent[MAX_EMAILS_PER_HOUR - 1];
+
+  if (oldest) {
+    return {
+      status: "throttled",
+      retryAfterSeconds: Math.ceil((oldest.createdAt.getTime() + 60 * 60 * 1000 - now) / 1000),
+    };
+  }
+
+  await sendVerificationEmail(user);
+
+  return { status: "sent" };
+};
+
+// Marks the token's user as verified. Returns false for unknown, expired or
+// already used tokens.
+export const verifyEmail = async (token: string) => {
+  const stored = await prismaClient.emailVerificationToken.findUnique({
+    where: {
+      tokenHash: hashToken(token),
+    },
+  });
+
+  if (!stored || stored.usedAt || stored.expiresAt <= new Date()) {
+    return false;
+  }
+
+  await prismaClient.$transaction([
+    prismaClient.emailVerificationToken.updateMany({
+      where: {
+        userId: stored.userId,
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    }),
+    prismaClient.user.update({
+      where: {
+        id: stored.userId,
+      },
+      data: {
+        emailVerifiedAt: new Date(),
+      },
+    }),
+  ]);
+
+  return true;
+};
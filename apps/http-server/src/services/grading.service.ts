@@ -0,0 +1,92 @@
+import {
+  NumericAnswerKeySchema,
+  QuestionOption,
+  QuestionResponse,
+  QuestionType,
+} from "@repo/common/types";
+
+// Stored options and answer keys are validated on write by
+// CreateQuestionSchema for the question's type.
+type GradableQuestion = {
+  type: QuestionType;
+  options: unknown;
+  answer: unknown;
+};
+
+// Leaves room for floating point error in keys such as 0.1 + 0.2
+const NUMERIC_EPSILON = 1e-9;
+
+const getOptionIds = (question: GradableQuestion) =>
+  (question.options as QuestionOption[]).map((option) => option.id);
+
+// Why a response cannot answer the question, or null when it can
+export const checkResponse = (
+  question: GradableQuestion,
+  response: QuestionResponse
+): string | null => {
+  const optionIds = getOptionIds(question);
+
+  switch (question.type) {
+    case "SINGLE_CHOICE":
+      return typeof response === "string" && optionIds.includes(response)
+        ? null
+        : "Answer must be the id of one of the options";
+    case "MULTI_SELECT":
+      return Array.isArray(response) && response.every((id) => optionIds.includes(id))
+        ? null
+        : "Answer must list ids of the options";
+    case "NUMERIC":
+      return typeof response === "number" ? null : "Answer must be a number";
+    case "ORDERING":
+      return Array.isArray(response) &&
+        response.length === optionIds.length &&
+        response.every((id) => optionIds.includes(id))
+        ? null
+        : "Answer must list every option id once";
+  }
+};
+
+// Share of the marks a response earns, from 0 to 1. A multi-select answer
+// earns a share for each correct option picked, less one for each wrong pick;
+// an ordering answer earns a share for each option in its correct place.
+// Single choice and numeric answers are either right or wrong.
+export const gradeResponse = (
+  question: GradableQuestion,
+  response: QuestionResponse | null
+): number => {
+  if (response === null) {
+    return 0;
+  }
+
+  switch (question.type) {
+    case "SINGLE_CHOICE":
+      return response === question.answer ? 1 : 0;
+    case "MULTI_SELECT": {
+      const key = question.answer as string[];
+
+      if (!Array.isArray(response)) {
+        return 0;
+      }
+
+      const hits = response.filter((id) => key.includes(id)).length;
+      return Math.max(0, hits - (response.length - hits)) / key.length;
+    }
+    case "NUMERIC": {
+      const { value, tolerance } = NumericAnswerKeySchema.parse(question.answer);
+
+      return typeof response === "number" &&
+        Math.abs(response - value) <= tolerance + NUMERIC_EPSILON
+        ? 1
+        : 0;
+    }
+    case "ORDERING": {
+      const key = question.answer as string[];
+
+      if (!Array.isArray(response)) {
+        return 0;
+      }
+
+      return key.filter((id, index) => response[index] === id).length / key.length;
+    }
+  }
+};
@@ -0,0 +1,169 @@
+import { prismaClient, Prisma } from "@repo/db/client";
+import { LeaderboardQuerySchema } from "@repo/common/types";
+import { z } from "zod";
+import type { ScoreBreakdown } from "./scoring.service";
+
+type LeaderboardQuery = z.infer<typeof LeaderboardQuerySchema>;
+type LeaderboardPeriod = LeaderboardQuery["period"];
+
+// Filter value stored for the unfiltered topic and mode boards
+const ALL = "ALL";
+
+const PERIODS: LeaderboardPeriod[] = ["ALL_TIME", "MONTH", "WEEK"];
+
+// Start of the period containing `date`, in UTC. Weeks start on Monday to
+// match Postgres date_trunc, which the backfill migration used.
+export const getPeriodStart = (period: LeaderboardPeriod, date: Date) => {
+  switch (period) {
+    case "ALL_TIME":
+      return new Date(0);
+    case "MONTH":
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    case "WEEK": {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      return new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)
+      );
+    }
+  }
+};
+
+// Timestamps are stored without a time zone, in UTC
+const toTimestamp = (date: Date) => Prisma.sql`${date.toISOString()}::timestamp`;
+
+type ScoredTest = {
+  userId: number;
+  mode: string;
+  submittedAt: Date;
+  questions: { topic: string; isCorrect: boolean }[];
+  // Marks under the test's scoring rules, overall and per topic
+  breakdown: Pick<ScoreBreakdown, "marks" | "byTopic">;
+};
+
+// Adds a freshly scored test to every leaderboard it counts towards. Must run
+// in the transaction that marks the test submitted, so each test is counted
+// exactly once.
+export const recordTestResult = async (tx: Prisma.TransactionClient, test: ScoredTest) => {
+  if (test.questions.length === 0) {
+    return;
+  }
+
+  const topics = [...new Set(test.questions.map(({ topic }) => topic)), ALL];
+  const rows: Prisma.Sql[] = [];
+
+  for (const period of PERIODS) {
+    for (const topic of topics) {
+      const questions = test.questions.filter(
+        (question) => topic === ALL || question.topic === topic
+      );
+      const correct = questions.filter(({ isCorrect }) => isCorrect).length;
+      const marks =
+        topic === ALL
+          ? test.breakdown.marks
+          : (test.breakdown.byTopic.find((section) => section.topic === topic)?.marks ?? 0);
+
+      for (const mode of [test.mode, ALL]) {
+        rows.push(Prisma.sql`(
+          ${period}::"public"."LeaderboardPeriod",
+          ${toTimestamp(getPeriodStart(period, test.submittedAt))},
+          ${topic}, ${mode}, ${test.userId}, 1, ${questions.length}, ${correct}, ${marks},
+          CURRENT_TIMESTAMP
+        )`);
+      }
+    }
+  }
+
+  await tx.$executeRaw`
+    INSERT INTO "public"."LeaderboardEntry"
+      ("period", "periodStart", "topic", "mode", "userId", "tests", "questions", "correct", "marks",
+        "updatedAt")
+    VALUES ${Prisma.join(rows)}
+    ON CONFLICT ("period", "periodStart", "topic", "mode", "userId") DO UPDATE SET
+      "tests" = "LeaderboardEntry"."tests" + EXCLUDED."tests",
+      "questions" = "LeaderboardEntry"."questions" + EXCLUDED."questions",
+      "correct" = "LeaderboardEntry"."correct" + EXCLUDED."correct",
+      "marks" = "LeaderboardEntry"."marks" + EXCLUDED."marks",
+      "updatedAt" = EXCLUDED."updatedAt"
+  `;
+};
+
+type RankedRow = {
+  userId: number;
+  name: string;
+  tests: number;
+  questions: number;
+  correct: number;
+  marks: number;
+  accuracy: number;
+  rank: number;
+  position: number;
+  percentRank: number;
+  total: number;
+};
+
+// The top `limit` users of one board plus the caller's own row, wherever
+// they rank. The score board ranks on marks, so negative marking and
+// difficulty weights count as they did on each test. Ties share a rank.
+export const getLeaderboard = async (
+  userId: number,
+  { period, topic, mode, sort, limit, minQuestions }: LeaderboardQuery
+) => {
+  const periodStart = getPeriodStart(period, new Date());
+  // A handful of lucky answers should not top the accuracy board
+  const threshold = sort === "accuracy" ? minQuestions : 1;
+  const order =
+    sort === "accuracy"
+      ? Prisma.sql`"accuracy" DESC, "correct" DESC`
+      : Prisma.sql`"marks" DESC, "accuracy" DESC`;
+
+  const rows = await prismaClient.$queryRaw<RankedRow[]>`
+    WITH "entry" AS (
+      SELECT e."userId", u."name", e."tests", e."questions", e."correct", e."marks",
+        e."correct"::float8 / e."questions" AS "accuracy"
+      FROM "public"."LeaderboardEntry" e
+      JOIN "public"."User" u ON u."id" = e."userId"
+      WHERE e."period" = ${period}::"public"."LeaderboardPeriod"
+        AND e."periodStart" = ${toTimestamp(periodStart)}
+        AND e."topic" = ${topic ?? ALL}
+        AND e."mode" = ${mode ?? ALL}
+        AND e."questions" >= ${threshold}
+    ), "ranked" AS (
+      SELECT "entry".*,
+        RANK() OVER (ORDER BY ${order})::int AS "rank",
+        ROW_NUMBER() OVER (ORDER BY ${order}, "userId")::int AS "position",
+        PERCENT_RANK() OVER (ORDER BY ${order}) AS "percentRank",
+        COUNT(*) OVER ()::int AS "total"
+      FROM "entry"
+    )
+    SELECT * FROM "ranked"
+    WHERE "position" <= ${limit} OR "userId" = ${userId}
+    ORDER BY "position"
+  `;
+
+  const toEntry = (row: RankedRow) => ({
+    rank: row.rank,
+    userId: row.userId,
+    name: row.name,
+    tests: row.tests,
+    questions: row.questions,
+    correct: row.correct,
+    marks: row.marks,
+    accuracy: row.accuracy,
+  });
+
+  const own = rows.find((row) => row.userId === userId);
+
+  return {
+    period,
+    periodStart,
+    total: rows[0]?.total ?? 0,
+    entries: rows.filter((row) => row.position <= limit).map(toEntry),
+    me: own
+      ? {
+          ...toEntry(own),
+          // Share of the other ranked users placed below the caller
+          percentile: Math.round((1 - own.percentRank) * 1000) / 10,
+        }
+      : null,
+  };
+};
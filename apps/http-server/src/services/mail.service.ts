@@ -0,0 +1,50 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each email to its own file so flows can be tested offline.
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to}.txt`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
+
+const createDefaultTransport = (): MailTransport =>
+  process.env.MAIL_TRANSPORT === "file"
+    ? new FileMailTransport(process.env.MAIL_OUTBOX_DIR ?? "mail-outbox")
+    : new ConsoleMailTransport();
+
+let transport: MailTransport | undefined;
+
+export const getMailTransport = () => (transport ??= createDefaultTransport());
+
+// Replaces the transport, e.g. with an SMTP or provider-backed implementation.
+export const setMailTransport = (mailTransport: MailTransport) => {
+  transport = mailTransport;
+};
+
+export const sendMail = (message: MailMessage) => getMailTransport().send(message);
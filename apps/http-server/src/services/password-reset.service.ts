@@ -0,0 +1,106 @@
+import bcrypt from "bcryptjs";
+import { prismaClient } from "@repo/db/client";
+import { generateToken, hashToken } from "../utils/token";
+import { sendMail } from "./mail.service";
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const appUrl = () => process.env.APP_URL ?? "http://localhost:3001";
+
+// Emails a single-use reset link. Unknown addresses are silently ignored so
+// the response does not reveal which emails are registered.
+export const requestPasswordReset = async (email: string) => {
+  const user = await prismaClient.user.findFirst({
+    where: {
+      email: {
+        equals: email,
+        mode: "insensitive",
+      },
+    },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const token = generateToken();
+
+  // Only the most recently issued link stays valid
+  await prismaClient.$transaction([
+    prismaClient.passwordResetToken.updateMany({
+      where: {
+        userId: user.id,
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    }),
+    prismaClient.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+      },
+    }),
+  ]);
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text: `Hi ${user.name},\n\nUse the link below to reset your password. It expires in 1 hour.\n\n${appUrl()}/reset-password?token=${token}\n\nIf you did not request this, you can ignore this email.`,
+  });
+};
+
+// Sets a new password and signs the user out everywhere. Returns false when
+// the token is unknown, expired or already used.
+export const resetPassword = async (token: string, password: string) => {
+  const stored = await prismaClient.passwordResetToken.findUnique({
+    where: {
+      tokenHash: hashToken(token),
+    },
+  });
+
+  if (!stored || stored.usedAt || stored.expiresAt <= new Date()) {
+    return false;
+  }
+
+  const hashedPassword = await bcrypt.hash(password, 10);
+
+  return prismaClient.$transaction(async (tx) => {
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: {
+        id: stored.id,
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.user.update({
+      where: {
+        id: stored.userId,
+      },
+      data: {
+        password: hashedPassword,
+      },
+    });
+
+    await tx.session.updateMany({
+      where: {
+        userId: stored.userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+
+    return true;
+  });
+};
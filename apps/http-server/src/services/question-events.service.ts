@@ -0,0 +1,65 @@
+import { prismaClient } from "@repo/db/client";
+import { QuestionEventSchema } from "@repo/common/types";
+import { z } from "zod";
+
+type QuestionEvent = z.infer<typeof QuestionEventSchema>;
+
+// Largest value the Int timeSpentMs column holds
+const MAX_TIME_SPENT_MS = 2 ** 31 - 1;
+
+// Logs the events reported by the test page and folds them into the pacing
+// columns of each question. A question's time is capped at the time elapsed
+// since the test started, so a misbehaving client cannot inflate it.
+export const recordQuestionEvents = async (
+  test: { startedAt: Date },
+  events: QuestionEvent[],
+  now: Date = new Date()
+) => {
+  const elapsedMs = Math.min(MAX_TIME_SPENT_MS, now.getTime() - test.startedAt.getTime());
+
+  const viewed = new Set<number>();
+  const dwell = new Map<number, number>();
+
+  for (const event of events) {
+    if (event.type === "VIEW") {
+      viewed.add(event.testQuestionId);
+    } else {
+      dwell.set(event.testQuestionId, (dwell.get(event.testQuestionId) ?? 0) + event.durationMs);
+    }
+  }
+
+  await prismaClient.$transaction(async (tx) => {
+    await tx.testQuestionEvent.createMany({
+      data: events.map((event) => ({
+        testQuestionId: event.testQuestionId,
+        type: event.type,
+        durationMs: event.type === "DWELL" ? event.durationMs : null,
+        createdAt: now,
+      })),
+    });
+
+    if (viewed.size > 0) {
+      await tx.testQuestion.updateMany({
+        where: {
+          id: {
+            in: [...viewed],
+          },
+          firstViewedAt: null,
+        },
+        data: {
+          firstViewedAt: now,
+        },
+      });
+    }
+
+    // A dwell also counts as a view in case the VIEW event was lost
+    for (const [testQuestionId, durationMs] of dwell) {
+      await tx.$executeRaw`
+        UPDATE "public"."TestQuestion" SET
+          "timeSpentMs" = LEAST("timeSpentMs" + ${durationMs}, ${elapsedMs}),
+          "firstViewedAt" = COALESCE("firstViewedAt", ${now.toISOString()}::timestamp)
+        WHERE "id" = ${testQuestionId}
+      `;
+    }
+  });
+};
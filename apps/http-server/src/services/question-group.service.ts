@@ -0,0 +1,14 @@
+import { Prisma } from "@repo/db/client";
+import { StimulusChart, StimulusTable } from "@repo/common/types";
+
+type QuestionGroup = Prisma.QuestionGroupGetPayload<object>;
+
+// What test takers see of a group. Stored tables and charts are validated on
+// write by CreateQuestionGroupSchema.
+export const serializeStimulus = (group: QuestionGroup) => ({
+  id: group.id,
+  title: group.title,
+  passage: group.passage,
+  table: group.table as StimulusTable | null,
+  chart: group.chart as StimulusChart | null,
+});
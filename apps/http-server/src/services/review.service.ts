@@ -0,0 +1,197 @@
+import { prismaClient, Prisma } from "@repo/db/client";
+import { QuestionOption, ReviewConfidenceSchema } from "@repo/common/types";
+import { z } from "zod";
+import { serializeStimulus } from "./question-group.service";
+
+type ReviewConfidence = z.infer<typeof ReviewConfidenceSchema>;
+
+type ReviewSchedule = {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+};
+
+const MIN_EASE_FACTOR = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 recall quality from 0 (complete blackout) to 5 (perfect recall) for a
+// correct answer. A correct guess is not recall, so it scores as forgotten.
+const RECALL_QUALITY: Record<ReviewConfidence, number> = {
+  GUESSED: 2,
+  HARD: 3,
+  GOOD: 4,
+  EASY: 5,
+};
+
+const WRONG_ANSWER_QUALITY = 1;
+
+export const getRecallQuality = (isCorrect: boolean, confidence: ReviewConfidence) =>
+  isCorrect ? RECALL_QUALITY[confidence] : WRONG_ANSWER_QUALITY;
+
+// The SM-2 update. Quality below 3 restarts the repetitions at a one day
+// interval; otherwise the interval grows to 1 day, 6 days and then by the
+// ease factor each time. The ease factor itself drifts with the quality.
+export const scheduleReview = (item: ReviewSchedule, quality: number): ReviewSchedule => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    item.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  if (quality < 3) {
+    return { easeFactor, interval: 1, repetitions: 0, lapses: item.lapses + 1 };
+  }
+
+  const repetitions = item.repetitions + 1;
+  const interval =
+    repetitions === 1
+      ? 1
+      : repetitions === 2
+        ? 6
+        : Math.max(1, Math.round(item.interval * item.easeFactor));
+
+  return { easeFactor, interval, repetitions, lapses: item.lapses };
+};
+
+// Reviews fall due at the start of a UTC day, so everything scheduled for
+// today is in the queue from the first visit of the day.
+export const getDueDate = (interval: number, now: Date = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) + interval * DAY_MS);
+
+// Queues questions the user missed or guessed in a test, due immediately. A
+// question already in the queue counts as forgotten again and starts over.
+// Runs in the transaction that scores the test.
+export const enqueueReviews = async (
+  tx: Prisma.TransactionClient,
+  userId: number,
+  questionIds: number[],
+  missedAt: Date
+) => {
+  if (questionIds.length === 0) {
+    return;
+  }
+
+  const rows = [...new Set(questionIds)].map(
+    (questionId) => Prisma.sql`(
+      ${userId}, ${questionId}, ${missedAt.toISOString()}::timestamp, CURRENT_TIMESTAMP
+    )`
+  );
+
+  await tx.$executeRaw`
+    INSERT INTO "public"."ReviewItem" ("userId", "questionId", "dueAt", "updatedAt")
+    VALUES ${Prisma.join(rows)}
+    ON CONFLICT ("userId", "questionId") DO UPDATE SET
+      "interval" = 0,
+      "repetitions" = 0,
+      "lapses" = "ReviewItem"."lapses" + 1,
+      "dueAt" = LEAST("ReviewItem"."dueAt", EXCLUDED."dueAt"),
+      "updatedAt" = EXCLUDED."updatedAt"
+  `;
+};
+
+const reviewItemInclude = {
+  question: {
+    include: {
+      group: true,
+    },
+  },
+} satisfies Prisma.ReviewItemInclude;
+
+type ReviewItem = Prisma.ReviewItemGetPayload<{ include: typeof reviewItemInclude }>;
+
+// Items whose question was deleted are never served
+export const findUserReviewItem = (reviewItemId: number, userId: number) =>
+  prismaClient.reviewItem.findFirst({
+    where: {
+      id: reviewItemId,
+      userId,
+      question: {
+        deletedAt: null,
+      },
+    },
+    include: reviewItemInclude,
+  });
+
+export const serializeReviewSchedule = (item: Omit<ReviewItem, "question">) => ({
+  id: item.id,
+  easeFactor: item.easeFactor,
+  interval: item.interval,
+  repetitions: item.repetitions,
+  lapses: item.lapses,
+  dueAt: item.dueAt,
+  lastReviewedAt: item.lastReviewedAt,
+});
+
+const serializeReviewItem = (item: ReviewItem) => ({
+  ...serializeReviewSchedule(item),
+  question: {
+    id: item.question.id,
+    type: item.question.type,
+    text: item.question.text,
+    // stored options are validated on write by CreateQuestionSchema
+    options: item.question.options as QuestionOption[],
+    difficulty: item.question.difficulty,
+    topic: item.question.topic,
+    group: item.question.group && serializeStimulus(item.question.group),
+  },
+});
+
+// The most overdue items first, plus how many are due in all
+export const getDueReviews = async (userId: number, limit: number) => {
+  const queued = {
+    userId,
+    question: {
+      deletedAt: null,
+    },
+  } satisfies Prisma.ReviewItemWhereInput;
+  const due = {
+    ...queued,
+    dueAt: {
+      lte: new Date(),
+    },
+  } satisfies Prisma.ReviewItemWhereInput;
+
+  const [dueCount, total, items] = await Promise.all([
+    prismaClient.reviewItem.count({ where: due }),
+    prismaClient.reviewItem.count({ where: queued }),
+    prismaClient.reviewItem.findMany({
+      where: due,
+      orderBy: [{ dueAt: "asc" }, { id: "asc" }],
+      take: limit,
+      include: reviewItemInclude,
+    }),
+  ]);
+
+  return {
+    due: dueCount,
+    total,
+    items: items.map(serializeReviewItem),
+  };
+};
+
+// Reschedules an item after a review. Returns null when the item changed
+// since it was read, i.e. the same review was recorded concurrently.
+export const recordReview = async (
+  item: ReviewItem,
+  isCorrect: boolean,
+  confidence: ReviewConfidence,
+  reviewedAt: Date = new Date()
+) => {
+  const schedule = scheduleReview(item, getRecallQuality(isCorrect, confidence));
+  const data = {
+    ...schedule,
+    dueAt: getDueDate(schedule.interval, reviewedAt),
+    lastReviewedAt: reviewedAt,
+  };
+
+  const { count } = await prismaClient.reviewItem.updateMany({
+    where: {
+      id: item.id,
+      updatedAt: item.updatedAt,
+    },
+    data,
+  });
+
+  return count === 0 ? null : { ...item, ...data };
+};
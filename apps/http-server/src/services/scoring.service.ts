@@ -0,0 +1,117 @@
+import {
+  DEFAULT_SCORING_RULES,
+  DifficultySchema,
+  ScoringRules,
+  ScoringRulesSchema,
+  TopicSchema,
+} from "@repo/common/types";
+import { z } from "zod";
+
+type Topic = z.infer<typeof TopicSchema>;
+type Difficulty = z.infer<typeof DifficultySchema>;
+
+type MarkedQuestion = {
+  topic: Topic;
+  difficulty: Difficulty;
+  answered: boolean;
+  // Share of the marks the answer earned, see gradeResponse
+  credit: number;
+};
+
+type Marks = {
+  marks: number;
+  maxMarks: number;
+  correct: number;
+  partial: number;
+  wrong: number;
+  unattempted: number;
+};
+
+export type ScoreBreakdown = Marks & {
+  passed: boolean | null;
+  byTopic: (Marks & { topic: Topic; cutoff: number | null; passed: boolean | null })[];
+  byDifficulty: (Marks & { difficulty: Difficulty })[];
+};
+
+// Rules stored on a test, or the default rules for tests started before
+// scoring schemes existed
+export const getScoringRules = (stored: unknown): ScoringRules =>
+  stored ? ScoringRulesSchema.parse(stored) : DEFAULT_SCORING_RULES;
+
+// Keeps fractional penalties such as -1/3 from piling up float noise
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Without partial credit an answer that is only partly right earns nothing
+// and is marked as wrong
+const getEarnedCredit = (rules: ScoringRules, question: MarkedQuestion) =>
+  rules.partialCredit || question.credit === 1 ? question.credit : 0;
+
+const addUp = (rules: ScoringRules, questions: MarkedQuestion[]): Marks => {
+  let marks = 0;
+  let maxMarks = 0;
+
+  for (const question of questions) {
+    const weight = rules.difficultyWeights[question.difficulty];
+    const credit = getEarnedCredit(rules, question);
+
+    maxMarks += weight * rules.correct;
+    marks +=
+      weight *
+      (credit > 0 ? credit * rules.correct : question.answered ? rules.wrong : rules.unattempted);
+  }
+
+  const earned = questions.map((question) => getEarnedCredit(rules, question));
+
+  return {
+    marks: round(marks),
+    maxMarks: round(maxMarks),
+    correct: earned.filter((credit) => credit === 1).length,
+    partial: earned.filter((credit) => credit > 0 && credit < 1).length,
+    wrong: questions.filter((question, index) => question.answered && earned[index] === 0).length,
+    unattempted: questions.filter((question) => !question.answered).length,
+  };
+};
+
+const groupBy = <K extends string>(
+  questions: MarkedQuestion[],
+  key: (question: MarkedQuestion) => K
+) =>
+  [...new Set(questions.map(key))].map(
+    (value) => [value, questions.filter((question) => key(question) === value)] as const
+  );
+
+// Marks a graded test. It passes when it clears the overall cut-off and the
+// cut-off of every section (topic) it contains; with no cut-offs at all,
+// `passed` is null.
+export const computeScoreBreakdown = (
+  rules: ScoringRules,
+  questions: MarkedQuestion[]
+): ScoreBreakdown => {
+  const total = addUp(rules, questions);
+
+  const byTopic = groupBy(questions, (question) => question.topic).map(([topic, group]) => {
+    const marks = addUp(rules, group);
+    const cutoff = rules.sectionCutoffs[topic] ?? null;
+
+    return {
+      topic,
+      ...marks,
+      cutoff,
+      passed: cutoff === null ? null : marks.marks >= cutoff,
+    };
+  });
+
+  const checks = [
+    ...(rules.passMarks === null ? [] : [total.marks >= rules.passMarks]),
+    ...byTopic.flatMap(({ passed }) => (passed === null ? [] : [passed])),
+  ];
+
+  return {
+    ...total,
+    passed: checks.length === 0 ? null : checks.every(Boolean),
+    byTopic,
+    byDifficulty: groupBy(questions, (question) => question.difficulty).map(
+      ([difficulty, group]) => ({ difficulty, ...addUp(rules, group) })
+    ),
+  };
+};
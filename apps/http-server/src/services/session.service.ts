@@ -0,0 +1,126 @@
+import jwt from "jsonwebtoken";
+import { prismaClient } from "@repo/db/client";
+import { generateToken, hashToken } from "../utils/token";
+
+const ACCESS_TOKEN_TTL = "15m";
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type TokenPair = {
+  token: string;
+  refreshToken: string;
+};
+
+export type RefreshResult =
+  | { status: "ok"; tokens: TokenPair }
+  | { status: "invalid" }
+  | { status: "reused" };
+
+const signAccessToken = (userId: number, sessionId: string) =>
+  jwt.sign({ userId, sessionId }, process.env.JWT_SECRET!, {
+    expiresIn: ACCESS_TOKEN_TTL,
+  });
+
+const issueRefreshToken = async (sessionId: string) => {
+  const refreshToken = generateToken(48);
+
+  await prismaClient.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return refreshToken;
+};
+
+export const createSession = async (userId: number): Promise<TokenPair> => {
+  const session = await prismaClient.session.create({
+    data: {
+      userId,
+    },
+  });
+
+  return {
+    token: signAccessToken(userId, session.id),
+    refreshToken: await issueRefreshToken(session.id),
+  };
+};
+
+// Exchanges a refresh token for a new token pair. A token can only be used
+// once: presenting an already used token means it was stolen or replayed, so
+// the whole session is revoked.
+export const rotateRefreshToken = async (refreshToken: string): Promise<RefreshResult> => {
+  const stored = await prismaClient.refreshToken.findUnique({
+    where: {
+      tokenHash: hashToken(refreshToken),
+    },
+    include: {
+      session: true,
+    },
+  });
+
+  if (!stored || stored.session.revokedAt || stored.expiresAt <= new Date()) {
+    return { status: "invalid" };
+  }
+
+  // Mark the token used only if nobody else did first, so two concurrent
+  // refreshes with the same token are also treated as reuse.
+  const { count } = await prismaClient.refreshToken.updateMany({
+    where: {
+      id: stored.id,
+      usedAt: null,
+    },
+    data: {
+      usedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    await revokeSession(stored.sessionId);
+    return { status: "reused" };
+  }
+
+  return {
+    status: "ok",
+    tokens: {
+      token: signAccessToken(stored.session.userId, stored.sessionId),
+      refreshToken: await issueRefreshToken(stored.sessionId),
+    },
+  };
+};
+
+export const revokeSession = (sessionId: string) =>
+  prismaClient.session.updateMany({
+    where: {
+      id: sessionId,
+      revokedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+export const revokeUserSessions = (userId: number) =>
+  prismaClient.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+export const isSessionActive = async (sessionId: string) => {
+  const session = await prismaClient.session.findUnique({
+    where: {
+      id: sessionId,
+    },
+    select: {
+      revokedAt: true,
+    },
+  });
+
+  return session !== null && session.revokedAt === null;
+};
@@ -0,0 +1,36 @@
+import { getRateLimitStore } from "../utils/rate-limit-store";
+
+// Progressive lockout after repeated failed sign-ins. State is keyed by the
+// submitted email whether or not an account exists, so lockouts do not reveal
+// which emails are registered.
+
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const FREE_ATTEMPTS = 5;
+const BASE_LOCK_MS = 60 * 1000;
+const MAX_LOCK_MS = 24 * 60 * 60 * 1000;
+
+const failuresKey = (email: string) => `sign-in-failures:${email.toLowerCase()}`;
+const lockKey = (email: string) => `sign-in-lock:${email.toLowerCase()}`;
+
+// Seconds until the account can be tried again, or null if it is not locked.
+export const getSignInLock = async (email: string) => {
+  const lock = await getRateLimitStore().get(lockKey(email));
+  return lock ? Math.ceil((lock.resetAt - Date.now()) / 1000) : null;
+};
+
+// Locks for 1 minute after FREE_ATTEMPTS failures, doubling with each further
+// failure up to 24 hours.
+export const recordFailedSignIn = async (email: string) => {
+  const store = getRateLimitStore();
+  const { count } = await store.increment(failuresKey(email), FAILURE_WINDOW_MS);
+
+  if (count >= FREE_ATTEMPTS) {
+    const lockMs = Math.min(BASE_LOCK_MS * 2 ** (count - FREE_ATTEMPTS), MAX_LOCK_MS);
+    await store.set(lockKey(email), count, lockMs);
+  }
+};
+
+export const clearFailedSignIns = async (email: string) => {
+  const store = getRateLimitStore();
+  await Promise.all([store.reset(failuresKey(email)), store.reset(lockKey(email))]);
+};
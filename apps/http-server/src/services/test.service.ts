@@ -0,0 +1,415 @@
+import { Prisma, prismaClient } from "@repo/db/client";
+import { AnswerKey, CreateTestSchema, QuestionOption, QuestionResponse } from "@repo/common/types";
+import { z } from "zod";
+import { confidenceInterval, estimateAbility, getItemParameters } from "@repo/db/irt";
+import { recordTestResult } from "./leaderboard.service";
+import { enqueueReviews } from "./review.service";
+import { gradeResponse } from "./grading.service";
+import { serializeStimulus } from "./question-group.service";
+import { computeScoreBreakdown, getScoringRules, ScoreBreakdown } from "./scoring.service";
+
+type CreateTestInput = z.infer<typeof CreateTestSchema>;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+};
+
+// Picks up to `questionCount` random question ids matching the test mode
+// (difficulty) and topic selection. The matching questions of a group are
+// drawn together, in group order, and only if they all fit in the test.
+export const pickQuestionIds = async ({
+  mode,
+  topic,
+  subject,
+  questionCount,
+}: CreateTestInput): Promise<number[]> => {
+  const questions = await prismaClient.question.findMany({
+    where: {
+      deletedAt: null,
+      ...(mode !== "MIXED" && mode !== "ADAPTIVE" && { difficulty: mode }),
+      ...(topic === "TOPICWISE" && { topic: subject }),
+    },
+    select: {
+      id: true,
+      groupId: true,
+    },
+    orderBy: [{ groupPosition: "asc" }, { id: "asc" }],
+  });
+
+  const units = new Map<string, number[]>();
+
+  for (const { id, groupId } of questions) {
+    const key = groupId === null ? `question:${id}` : `group:${groupId}`;
+    units.set(key, [...(units.get(key) ?? []), id]);
+  }
+
+  const picked: number[] = [];
+
+  for (const unit of shuffle([...units.values()])) {
+    if (picked.length + unit.length <= questionCount) {
+      picked.push(...unit);
+    }
+  }
+
+  return picked;
+};
+
+export const findUserTest = (testId: number, userId: number) =>
+  prismaClient.test.findFirst({
+    where: {
+      id: testId,
+      userId,
+    },
+    include: {
+      testQuestions: {
+        orderBy: {
+          id: "asc",
+        },
+        include: {
+          question: {
+            include: {
+              group: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+type UserTest = NonNullable<Awaited<ReturnType<typeof findUserTest>>>;
+
+type UserTestQuestion = UserTest["testQuestions"][number];
+
+// Saved answers are checked against the question by checkResponse
+const getUserAnswer = (testQuestion: Pick<UserTestQuestion, "userAnswer">) =>
+  testQuestion.userAnswer as QuestionResponse | null;
+
+// The groups the test's questions belong to, in the order they come up
+const serializeGroups = (test: UserTest) => {
+  const groups = new Map(
+    test.testQuestions.flatMap(({ question }) =>
+      question.group ? [[question.group.id, question.group] as const] : []
+    )
+  );
+
+  return [...groups.values()].map(serializeStimulus);
+};
+
+const serializeTestSummary = (test: UserTest) => {
+  const submitted = test.submittedAt !== null;
+
+  return {
+    id: test.id,
+    mode: test.mode,
+    topic: test.topic,
+    subject: test.subject,
+    score: submitted ? test.score : null,
+    scoringRules: getScoringRules(test.scoringRules),
+    marks: submitted ? test.marks : null,
+    // written by scoreTest from computeScoreBreakdown
+    scoreBreakdown: submitted ? (test.scoreBreakdown as ScoreBreakdown | null) : null,
+    timeLimit: test.timeLimit,
+    startedAt: test.startedAt,
+    endsAt: test.endsAt,
+    remainingSeconds: getRemainingSeconds(test),
+    createdAt: test.createdAt,
+    submittedAt: test.submittedAt,
+    questionCount: test.questionCount ?? test.testQuestions.length,
+    ability:
+      submitted && test.abilityEstimate !== null && test.abilityStandardError !== null
+        ? {
+            estimate: test.abilityEstimate,
+            standardError: test.abilityStandardError,
+            ...confidenceInterval({
+              estimate: test.abilityEstimate,
+              standardError: test.abilityStandardError,
+            }),
+          }
+        : null,
+  };
+};
+
+// Shapes a test for the client. The answer key, correctness and explanations
+// are only included once the test has been submitted.
+export const serializeTest = (test: UserTest) => {
+  const submitted = test.submittedAt !== null;
+
+  return {
+    ...serializeTestSummary(test),
+    questions: test.testQuestions.map((testQuestion) => ({
+      id: testQuestion.id,
+      questionId: testQuestion.question.id,
+      groupId: testQuestion.question.groupId,
+      type: testQuestion.question.type,
+      text: testQuestion.question.text,
+      // stored options and answers are validated on write by CreateQuestionSchema
+      options: testQuestion.question.options as QuestionOption[],
+      difficulty: testQuestion.question.difficulty,
+      topic: testQuestion.question.topic,
+      userAnswer: getUserAnswer(testQuestion),
+      guessed: testQuestion.guessed,
+      flagged: testQuestion.flagged,
+      ...(submitted && {
+        answer: testQuestion.question.answer as AnswerKey,
+        isCorrect: testQuestion.isCorrect,
+        credit: testQuestion.credit,
+        explanation: testQuestion.question.explanation,
+      }),
+    })),
+    groups: serializeGroups(test),
+  };
+};
+
+type ResultCounts = {
+  questions: number;
+  correct: number;
+  wrong: number;
+  skipped: number;
+};
+
+const countResults = (questions: { isCorrect: boolean; skipped: boolean }[]): ResultCounts => ({
+  questions: questions.length,
+  correct: questions.filter((question) => question.isCorrect).length,
+  wrong: questions.filter((question) => !question.isCorrect && !question.skipped).length,
+  skipped: questions.filter((question) => question.skipped).length,
+});
+
+// Seconds spent on a group of questions, or null when none of them was timed
+const sumTimeSpent = (questions: { timeSpentSeconds: number | null }[]) =>
+  questions.some((question) => question.timeSpentSeconds !== null)
+    ? questions.reduce((sum, question) => sum + (question.timeSpentSeconds ?? 0), 0)
+    : null;
+
+// Per-question outcomes and pacing of a submitted test with totals per topic.
+export const getTestResults = (test: UserTest & { submittedAt: Date }) => {
+  const durationSeconds = (test.submittedAt.getTime() - test.startedAt.getTime()) / 1000;
+
+  const questions = test.testQuestions.map((testQuestion) => ({
+    id: testQuestion.id,
+    questionId: testQuestion.question.id,
+    groupId: testQuestion.question.groupId,
+    type: testQuestion.question.type,
+    text: testQuestion.question.text,
+    options: testQuestion.question.options as QuestionOption[],
+    difficulty: testQuestion.question.difficulty,
+    topic: testQuestion.question.topic,
+    userAnswer: getUserAnswer(testQuestion),
+    answer: testQuestion.question.answer as AnswerKey,
+    isCorrect: testQuestion.isCorrect ?? false,
+    credit: testQuestion.credit ?? 0,
+    skipped: testQuestion.userAnswer === null,
+    guessed: testQuestion.guessed,
+    flagged: testQuestion.flagged,
+    explanation: testQuestion.question.explanation,
+    firstViewedAt: testQuestion.firstViewedAt,
+    timeSpentSeconds: testQuestion.firstViewedAt ? testQuestion.timeSpentMs / 1000 : null,
+    answerChanges: testQuestion.answerChanges,
+  }));
+
+  const topics = [...new Set(questions.map((question) => question.topic))];
+
+  return {
+    test: serializeTestSummary(test),
+    totals: {
+      ...countResults(questions),
+      durationSeconds,
+      answerChanges: questions.reduce((sum, question) => sum + question.answerChanges, 0),
+    },
+    byTopic: topics.map((topic) => {
+      const topicQuestions = questions.filter((question) => question.topic === topic);
+
+      return {
+        topic,
+        ...countResults(topicQuestions),
+        timeSpentSeconds: sumTimeSpent(topicQuestions),
+      };
+    }),
+    questions,
+    groups: serializeGroups(test),
+  };
+};
+
+// Seconds left before the deadline, or null for untimed and submitted tests.
+export const getRemainingSeconds = (
+  test: Pick<UserTest, "endsAt" | "submittedAt">,
+  now: Date = new Date()
+) => {
+  if (!test.endsAt || test.submittedAt) {
+    return null;
+  }
+
+  return Math.max(0, Math.ceil((test.endsAt.getTime() - now.getTime()) / 1000));
+};
+
+export const isExpired = (
+  test: Pick<UserTest, "endsAt" | "submittedAt">,
+  now: Date = new Date()
+) => getRemainingSeconds(test, now) === 0;
+
+// Saves an answer and logs it as an ANSWER event. Replacing a saved answer
+// with a different one counts as an answer change. A `final` answer cannot
+// replace an earlier one; false is returned when there already was one.
+export const saveAnswer = async (
+  testQuestion: Pick<UserTestQuestion, "id" | "userAnswer">,
+  { answer, guessed = false }: { answer: QuestionResponse; guessed?: boolean },
+  { final = false }: { final?: boolean } = {}
+) => {
+  const previous = getUserAnswer(testQuestion);
+  const changed = previous !== null && JSON.stringify(previous) !== JSON.stringify(answer);
+
+  return prismaClient.$transaction(async (tx) => {
+    const { count } = await tx.testQuestion.updateMany({
+      where: {
+        id: testQuestion.id,
+        ...(final && { userAnswer: { equals: Prisma.DbNull } }),
+      },
+      data: {
+        userAnswer: answer,
+        guessed,
+        ...(changed && { answerChanges: { increment: 1 } }),
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.testQuestionEvent.create({
+      data: {
+        testQuestionId: testQuestion.id,
+        type: "ANSWER",
+        answer,
+      },
+    });
+
+    return true;
+  });
+};
+
+const gradeTestQuestion = (testQuestion: UserTestQuestion) =>
+  gradeResponse(testQuestion.question, getUserAnswer(testQuestion));
+
+// Ability from every question served so far. Unanswered questions count as
+// wrong, as they do for the score.
+export const estimateTestAbility = (test: UserTest) =>
+  estimateAbility(
+    test.testQuestions.map((testQuestion) => ({
+      ...getItemParameters(testQuestion.question),
+      correct: gradeTestQuestion(testQuestion) === 1,
+    }))
+  );
+
+// Grades every question of the test, stores the final score and the marks
+// under the scoring rules the test was started with, and queues missed or
+// guessed questions for review. A test that was already scored concurrently
+// (e.g. by the expiry sweep) is left as is.
+export const scoreTest = async (test: UserTest, submittedAt: Date = new Date()) => {
+  const graded = test.testQuestions.map((testQuestion) => {
+    const credit = gradeTestQuestion(testQuestion);
+
+    return {
+      id: testQuestion.id,
+      questionId: testQuestion.questionId,
+      topic: testQuestion.question.topic,
+      difficulty: testQuestion.question.difficulty,
+      guessed: testQuestion.guessed,
+      answered: testQuestion.userAnswer !== null,
+      credit,
+      // Only fully right answers count as correct, whatever the scoring rules
+      isCorrect: credit === 1,
+    };
+  });
+
+  const score = graded.filter((testQuestion) => testQuestion.isCorrect).length;
+  const ability = estimateTestAbility(test);
+  const breakdown = computeScoreBreakdown(getScoringRules(test.scoringRules), graded);
+
+  await prismaClient.$transaction(async (tx) => {
+    const { count } = await tx.test.updateMany({
+      where: { id: test.id, submittedAt: null },
+      data: {
+        score,
+        marks: breakdown.marks,
+        scoreBreakdown: breakdown,
+        submittedAt,
+        abilityEstimate: ability.estimate,
+        abilityStandardError: ability.standardError,
+      },
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    for (const credit of new Set(graded.map((question) => question.credit))) {
+      await tx.testQuestion.updateMany({
+        where: {
+          id: {
+            in: graded.filter((question) => question.credit === credit).map(({ id }) => id),
+          },
+        },
+        data: { credit, isCorrect: credit === 1 },
+      });
+    }
+
+    await recordTestResult(tx, {
+      userId: test.userId,
+      mode: test.mode,
+      submittedAt,
+      questions: graded,
+      breakdown,
+    });
+
+    await enqueueReviews(
+      tx,
+      test.userId,
+      graded
+        .filter((question) => !question.isCorrect || question.guessed)
+        .map(({ questionId }) => questionId),
+      submittedAt
+    );
+  });
+
+  return findUserTest(test.id, test.userId) as Promise<UserTest>;
+};
+
+// Scores a test whose deadline has passed. Expired tests are recorded as
+// submitted at their deadline rather than at the time they were noticed.
+export const finalizeIfExpired = async (test: UserTest) => {
+  if (!isExpired(test)) {
+    return test;
+  }
+
+  return scoreTest(test, test.endsAt!);
+};
+
+// Finalizes every timed test whose deadline passed without a submission.
+export const finalizeExpiredTests = async () => {
+  const expired = await prismaClient.test.findMany({
+    where: {
+      submittedAt: null,
+      endsAt: {
+        lte: new Date(),
+      },
+    },
+    select: {
+      id: true,
+      userId: true,
+    },
+  });
+
+  for (const { id, userId } of expired) {
+    const test = await findUserTest(id, userId);
+
+    if (test) {
+      await finalizeIfExpired(test);
+    }
+  }
+
+  return expired.length;
+};
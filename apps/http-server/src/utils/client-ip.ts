@@ -0,0 +1,30 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { Request } from "express";
+
+// The web app's auth routes call the API on behalf of browsers and pass the
+// browser's address in X-Client-IP, signed with the secret both servers share
+// in PROXY_SECRET. Without a valid signature the header is ignored.
+const PROXY_SECRET = process.env.PROXY_SECRET;
+
+const sign = (address: string, secret: string) =>
+  createHmac("sha256", secret).update(address).digest();
+
+const verifiedClientIp = (req: Request) => {
+  const address = req.get("x-client-ip");
+  const signature = req.get("x-client-ip-signature");
+
+  if (!PROXY_SECRET || !address || !signature) {
+    return undefined;
+  }
+
+  const expected = sign(address, PROXY_SECRET);
+  const actual = Buffer.from(signature, "hex");
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+    ? address
+    : undefined;
+};
+
+// The address rate limits apply to: the browser's, when the request comes
+// through the web app, otherwise the connection's as resolved by `trust proxy`
+export const getClientIp = (req: Request) => verifiedClientIp(req) ?? req.ip;
@@ -0,0 +1,71 @@
+import { NextFunction, Request, RequestHandler, Response, Router } from "express";
+import { z } from "zod";
+import type { RouteContract } from "@repo/common/contracts";
+import { ValidationError } from "./errors";
+
+type Output<T> = T extends z.ZodType ? z.output<T> : unknown;
+
+export type ContractRequest<C extends RouteContract> = Request<
+  Output<C["params"]>,
+  unknown,
+  Output<C["body"]>,
+  Output<C["query"]>
+>;
+
+// Failures are thrown as AppErrors, so only the success body is typed here
+export type ContractResponse<C extends RouteContract> = Response<z.input<C["response"]>>;
+
+export type ContractHandler<C extends RouteContract> = (
+  req: ContractRequest<C>,
+  res: ContractResponse<C>
+) => unknown;
+
+const METHODS = {
+  GET: "get",
+  POST: "post",
+  PUT: "put",
+  PATCH: "patch",
+  DELETE: "delete",
+} as const;
+
+// Replaces params, query and body with their parsed values, or fails with a
+// ValidationError listing the issues.
+const validate =
+  (contract: RouteContract) => (req: Request, res: Response, next: NextFunction) => {
+    for (const part of ["params", "query", "body"] as const) {
+      const schema = contract[part];
+
+      if (!schema) {
+        continue;
+      }
+
+      const parsedData = schema.safeParse(req[part] ?? {});
+
+      if (!parsedData.success) {
+        throw ValidationError.fromZodError(parsedData.error);
+      }
+
+      // req.query is a getter in Express 5, so it cannot simply be assigned
+      Object.defineProperty(req, part, {
+        value: parsedData.data,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+
+    next();
+  };
+
+// Registers `handler` on `router` for the contract's method and path. Any
+// middlewares listed before the handler run ahead of validation.
+export const implement = <C extends RouteContract>(
+  router: Router,
+  contract: C,
+  ...handlers: [...RequestHandler[], ContractHandler<C>]
+) => {
+  const middlewares = handlers.slice(0, -1) as RequestHandler[];
+  const handler = handlers[handlers.length - 1] as RequestHandler;
+
+  router[METHODS[contract.method]](contract.path, ...middlewares, validate(contract), handler);
+};
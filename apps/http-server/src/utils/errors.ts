@@ -0,0 +1,77 @@
+import type { ErrorCode, ErrorIssue } from "@repo/common/contracts";
+import { z } from "zod";
+
+type AppErrorOptions = {
+  issues?: ErrorIssue[];
+  retryAfterSeconds?: number;
+};
+
+// Base class for errors that are safe to show to clients. Throw one from a
+// handler or middleware and the error handler turns it into the response.
+export class AppError extends Error {
+  readonly issues?: ErrorIssue[];
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    options: AppErrorOptions = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.issues = options.issues;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code: ErrorCode = "BAD_REQUEST") {
+    super(400, code, message);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(issues: ErrorIssue[], message = "Validation failed") {
+    super(400, "VALIDATION_FAILED", message, { issues });
+  }
+
+  static fromZodError(error: z.ZodError) {
+    return new ValidationError(
+      error.issues.map(({ path, message }) => ({
+        path: path.map((segment) => (typeof segment === "number" ? segment : String(segment))),
+        message,
+      }))
+    );
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string, code: ErrorCode = "UNAUTHENTICATED") {
+    super(401, code, message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: ErrorCode = "FORBIDDEN") {
+    super(403, code, message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(404, "NOT_FOUND", message);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code: ErrorCode = "CONFLICT") {
+    super(409, code, message);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string, retryAfterSeconds: number, code: ErrorCode = "RATE_LIMITED") {
+    super(429, code, message, { retryAfterSeconds });
+  }
+}
@@ -0,0 +1,112 @@
+export type Counter = {
+  count: number;
+  // Epoch milliseconds at which the counter expires
+  resetAt: number;
+};
+
+// Storage for rate limit and lockout counters. The operations map directly to
+// Redis commands (INCR + PEXPIRE, SET PX, GET + PTTL, DEL) so counters can be
+// shared between server instances.
+export interface RateLimitStore {
+  // Increments `key`, starting a new `windowMs` window if it has expired
+  increment(key: string, windowMs: number): Promise<Counter>;
+  set(key: string, count: number, ttlMs: number): Promise<void>;
+  get(key: string): Promise<Counter | null>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, Counter>();
+
+  constructor(cleanupIntervalMs = 60 * 1000) {
+    setInterval(() => this.removeExpired(), cleanupIntervalMs).unref();
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    const current = this.counters.get(key);
+    const counter =
+      current && current.resetAt > now
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, resetAt: now + windowMs };
+
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async set(key: string, count: number, ttlMs: number) {
+    this.counters.set(key, { count, resetAt: Date.now() + ttlMs });
+  }
+
+  async get(key: string) {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > Date.now() ? counter : null;
+  }
+
+  async reset(key: string) {
+    this.counters.delete(key);
+  }
+
+  private removeExpired() {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+// The subset of a node-redis v4 client used by RedisRateLimitStore
+export interface RedisLikeClient {
+  incr(key: string): Promise<number>;
+  pExpire(key: string, ms: number): Promise<unknown>;
+  pTTL(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly prefix = "rate-limit:"
+  ) {}
+
+  async increment(key: string, windowMs: number) {
+    const redisKey = this.prefix + key;
+    const count = await this.client.incr(redisKey);
+
+    if (count === 1) {
+      await this.client.pExpire(redisKey, windowMs);
+      return { count, resetAt: Date.now() + windowMs };
+    }
+
+    return { count, resetAt: Date.now() + Math.max(0, await this.client.pTTL(redisKey)) };
+  }
+
+  async set(key: string, count: number, ttlMs: number) {
+    await this.client.set(this.prefix + key, String(count), { PX: ttlMs });
+  }
+
+  async get(key: string) {
+    const redisKey = this.prefix + key;
+    const [value, ttl] = await Promise.all([this.client.get(redisKey), this.client.pTTL(redisKey)]);
+
+    return value === null ? null : { count: Number(value), resetAt: Date.now() + Math.max(0, ttl) };
+  }
+
+  async reset(key: string) {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+let store: RateLimitStore | undefined;
+
+export const getRateLimitStore = () => (store ??= new MemoryRateLimitStore());
+
+// Replaces the default in-memory store, e.g. with a RedisRateLimitStore when
+// running more than one server instance.
+export const setRateLimitStore = (rateLimitStore: RateLimitStore) => {
+  store = rateLimitStore;
+};
@@ -0,0 +1,8 @@
+import crypto from "node:crypto";
+
+export const generateToken = (bytes = 32) => crypto.randomBytes(bytes).toString("base64url");
+
+// Only the SHA-256 hash of one-time tokens is stored, so a database leak does
+// not expose usable tokens.
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
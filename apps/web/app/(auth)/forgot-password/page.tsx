@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useState } from "react";
+import { Input } from "@repo/ui/input";
+import { Button } from "@repo/ui/button";
+import { ForgotPasswordSchema } from "@repo/common/types";
+import { ApiError, useApi } from "../../../lib/api";
+import { toFieldErrors } from "../../../lib/api-errors";
+import { useZodForm } from "../../../lib/use-zod-form";
+
+const ForgotPassword: React.FC = () => {
+  const api = useApi();
+  const { register, handleSubmit } = useZodForm(ForgotPasswordSchema, { email: "" });
+  const [formError, setFormError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  // The server answers the same way whether or not the address has an
+  // account, so the confirmation does not reveal it either
+  const onSubmit = handleSubmit(async (data) => {
+    setFormError("");
+    setSubmitting(true);
+    try {
+      await api.auth.forgotPassword({ body: data });
+      setSent(true);
+    } catch (err) {
+      const fieldErrors = err instanceof ApiError ? toFieldErrors(err.body) : {};
+
+      if (Object.keys(fieldErrors).length > 0) return fieldErrors;
+      setFormError(err instanceof ApiError ? err.message : "Could not send the reset link");
+    } finally {
+      setSubmitting(false);
+    }
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="bg-white shadow-lg rounded-xl p-8 w-full max-w-md">
+        <h1 className="text-2xl font-bold text-center text-gray-900 mb-6">Reset Your Password</h1>
+        {sent ? (
+          <p role="status" className="text-sm text-gray-700 text-center">
+            If an account exists for that address, we have sent it a link to reset the password. The
+            link expires in 1 hour.
+          </p>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-5" noValidate>
+            <p className="text-sm text-gray-600 text-center">
+              Enter your email and we will send you a link to choose a new password.
+            </p>
+            {formError && (
+              <p role="alert" className="text-sm text-red-600 text-center">
+                {formError}
+              </p>
+            )}
+            <Input
+              type="email"
+              label="Email"
+              placeholder="john@example.com"
+              {...register("email")}
+              required
+              fullWidth
+            />
+            <Button type="submit" variant="primary" fullWidth loading={submitting}>
+              Send Reset Link
+            </Button>
+          </form>
+        )}
+        <p className="mt-4 text-center text-sm text-gray-600">
+          Remembered it?{" "}
+          <a href="/sign-in" className="text-indigo-600 hover:underline">
+            Sign In
+          </a>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@repo/ui/button";
+import { PasswordInput } from "@repo/ui/password-input";
+import { ResetPasswordSchema } from "@repo/common/types";
+import { ApiError, useApi } from "../../../lib/api";
+import { toFieldErrors } from "../../../lib/api-errors";
+import { useAuth } from "../../../lib/auth";
+import { useZodForm } from "../../../lib/use-zod-form";
+
+const NewPasswordSchema = ResetPasswordSchema.pick({ password: true });
+
+const ResetPassword: React.FC = () => {
+  const api = useApi();
+  const { status, signOut } = useAuth();
+  const { register, handleSubmit } = useZodForm(NewPasswordSchema, { password: "" });
+  // Read after mount, as the page is prerendered without search params
+  const [token, setToken] = useState<string | null>(null);
+  const [formError, setFormError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get("token") ?? "");
+  }, []);
+
+  const onSubmit = handleSubmit(async ({ password }) => {
+    if (!token) return;
+
+    setFormError("");
+    setSubmitting(true);
+    try {
+      await api.auth.resetPassword({ body: { token, password } });
+
+      // Resetting the password ends every session, this one included
+      if (status === "authenticated") await signOut();
+      setDone(true);
+    } catch (err) {
+      const fieldErrors = err instanceof ApiError ? toFieldErrors(err.body) : {};
+
+      if (fieldErrors.password) return fieldErrors;
+      setFormError(
+        err instanceof ApiError && err.code === "INVALID_OR_EXPIRED_TOKEN"
+          ? "This reset link is invalid or has expired. Request a new one."
+          : err instanceof ApiError
+            ? err.message
+            : "Could not reset your password"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  });
+
+  const renderBody = () => {
+    if (done) {
+      return (
+        <p role="status" className="text-sm text-gray-700 text-center">
+          Your password has been changed. Sign in with your new password.
+        </p>
+      );
+    }
+
+    if (token === "") {
+      return (
+        <p role="alert" className="text-sm text-red-600 text-center">
+          This reset link is incomplete. Open the link from the email again, or request a new one.
+        </p>
+      );
+    }
+
+    return (
+      <form onSubmit={onSubmit} className="space-y-5" noValidate>
+        {formError && (
+          <p role="alert" className="text-sm text-red-600 text-center">
+            {formError}
+          </p>
+        )}
+        <PasswordInput
+          label="New Password"
+          placeholder="Enter a new password"
+          {...register("password")}
+          required
+          fullWidth
+          showStrengthMeter
+        />
+        <Button
+          type="submit"
+          variant="primary"
+          fullWidth
+          loading={submitting}
+          disabled={token === null}
+        >
+          Set New Password
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="bg-white shadow-lg rounded-xl p-8 w-full max-w-md">
+        <h1 className="text-2xl font-bold text-center text-gray-900 mb-6">Choose a New Password</h1>
+        {renderBody()}
+        <p className="mt-4 text-center text-sm text-gray-600">
+          {done ? (
+            <a href="/sign-in" className="text-indigo-600 hover:underline">
+              Sign In
+            </a>
+          ) : (
+            <a href="/forgot-password" className="text-indigo-600 hover:underline">
+              Request a new link
+            </a>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,8 +1,13 @@
 "use client";
 
 import React, { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Input } from "@repo/ui/input";
 import { Button } from "@repo/ui/button";
+import { PasswordInput } from "@repo/ui/password-input";
+import { SignInSchema } from "@repo/common/types";
+import { getRedirectTarget, useAuth } from "../../../lib/auth";
+import { useZodForm } from "../../../lib/use-zod-form";
 
 // Icons
 const MailIcon: React.FC = () => (
@@ -12,60 +17,65 @@ const MailIcon: React.FC = () => (
 );
 
 const Signin: React.FC = () => {
-  const [formData, setFormData] = useState({ email: "", password: "" });
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { register, handleSubmit } = useZodForm(SignInSchema, { email: "", password: "" });
+  const [formError, setFormError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { signIn } = useAuth();
+  const router = useRouter();
 
-  const handleChange = (field: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
-    setFormData({ ...formData, [field]: e.target.value });
-    if (errors[field]) setErrors({ ...errors, [field]: "" });
-  };
+  const onSubmit = handleSubmit(async (data) => {
+    setFormError("");
+    setSubmitting(true);
+    const result = await signIn(data);
+    setSubmitting(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    let newErrors: Record<string, string> = {};
-    if (!formData.email.trim()) newErrors.email = "Email is required";
-    else if (!/\S+@\S+\.\S+/.test(formData.email)) newErrors.email = "Invalid email";
-    if (!formData.password.trim()) newErrors.password = "Password is required";
-
-    setErrors(newErrors);
-    if (Object.keys(newErrors).length === 0) {
-      console.log("Signin Success ✅", formData);
+    if (result.ok) {
+      router.replace(getRedirectTarget());
+      return;
     }
-  };
+
+    if (Object.keys(result.fieldErrors).length === 0) setFormError(result.message);
+    return result.fieldErrors;
+  });
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <div className="bg-white shadow-lg rounded-xl p-8 w-full max-w-md">
         <h1 className="text-2xl font-bold text-center text-gray-900 mb-6">Welcome Back</h1>
-        <form onSubmit={handleSubmit} className="space-y-5">
+        <form onSubmit={onSubmit} className="space-y-5" noValidate>
+          {formError && (
+            <p role="alert" className="text-sm text-red-600 text-center">
+              {formError}
+            </p>
+          )}
           <Input
             type="email"
             label="Email"
             placeholder="john@example.com"
-            value={formData.email}
-            onChange={handleChange("email")}
-            error={errors.email}
+            {...register("email")}
             required
             leftIcon={<MailIcon />}
             fullWidth
           />
-          <Input
-            type="password"
+          <PasswordInput
             label="Password"
             placeholder="Enter your password"
-            value={formData.password}
-            onChange={handleChange("password")}
-            error={errors.password}
+            {...register("password")}
             required
             fullWidth
           />
-          <Button type="submit" variant="primary" fullWidth>
+          <p className="-mt-3 text-right text-sm">
+            <a href="/forgot-password" className="text-indigo-600 hover:underline">
+              Forgot password?
+            </a>
+          </p>
+          <Button type="submit" variant="primary" fullWidth loading={submitting}>
             Sign In
           </Button>
         </form>
         <p className="mt-4 text-center text-sm text-gray-600">
           Don’t have an account?{" "}
-          <a href="/signup" className="text-indigo-600 hover:underline">
+          <a href="/sign-up" className="text-indigo-600 hover:underline">
             Sign Up
           </a>
         </p>
@@ -1,9 +1,14 @@
 "use client";
 
 import React, { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Input } from "@repo/ui/input";
 import { Button } from "@repo/ui/button";
 import { MailsIcon } from "lucide-react";
+import { PasswordInput } from "@repo/ui/password-input";
+import { SignUpSchema } from "@repo/common/types";
+import { getRedirectTarget, useAuth } from "../../../lib/auth";
+import { useZodForm } from "../../../lib/use-zod-form";
 
 // Icons
 const UserIcon: React.FC = () => (
@@ -19,41 +24,46 @@ const MailIcon: React.FC = () => (
 );
 
 const Signup: React.FC = () => {
-  const [formData, setFormData] = useState({ name: "", email: "", password: "" });
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { register, handleSubmit } = useZodForm(SignUpSchema, {
+    name: "",
+    email: "",
+    password: "",
+  });
+  const [formError, setFormError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { signUp } = useAuth();
+  const router = useRouter();
 
-  const handleChange = (field: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
-    setFormData({ ...formData, [field]: e.target.value });
-    if (errors[field]) setErrors({ ...errors, [field]: "" });
-  };
+  const onSubmit = handleSubmit(async (data) => {
+    setFormError("");
+    setSubmitting(true);
+    const result = await signUp(data);
+    setSubmitting(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    let newErrors: Record<string, string> = {};
-    if (!formData.name.trim()) newErrors.name = "Name is required";
-    if (!formData.email.trim()) newErrors.email = "Email is required";
-    else if (!/\S+@\S+\.\S+/.test(formData.email)) newErrors.email = "Invalid email";
-    if (!formData.password.trim()) newErrors.password = "Password is required";
-    else if (formData.password.length < 6) newErrors.password = "Min 6 characters";
-
-    setErrors(newErrors);
-    if (Object.keys(newErrors).length === 0) {
-      console.log("Signup Success ✅", formData);
+    if (result.ok) {
+      router.replace(getRedirectTarget());
+      return;
     }
-  };
+
+    if (Object.keys(result.fieldErrors).length === 0) setFormError(result.message);
+    return result.fieldErrors;
+  });
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <div className="bg-white shadow-lg rounded-xl p-8 w-full max-w-md">
         <h1 className="text-2xl font-bold text-center text-gray-900 mb-6">Create Account</h1>
-        <form onSubmit={handleSubmit} className="space-y-5">
+        <form onSubmit={onSubmit} className="space-y-5" noValidate>
+          {formError && (
+            <p role="alert" className="text-sm text-red-600 text-center">
+              {formError}
+            </p>
+          )}
           <Input
             type="text"
             label="Full Name"
             placeholder="John Doe"
-            value={formData.name}
-            onChange={handleChange("name")}
-            error={errors.name}
+            {...register("name")}
             required
             fullWidth
           />
@@ -61,24 +71,20 @@ const Signup: React.FC = () => {
             type="email"
             label="Email"
             placeholder="john@example.com"
-            value={formData.email}
-            onChange={handleChange("email")}
-            error={errors.email}
+            {...register("email")}
             rightIcon={<MailsIcon />}
             required
             fullWidth
           />
-          <Input
-            type="password"
+          <PasswordInput
             label="Password"
             placeholder="Enter your password"
-            value={formData.password}
-            onChange={handleChange("password")}
-            error={errors.password}
+            {...register("password")}
             required
             fullWidth
+            showStrengthMeter
           />
-          <Button type="submit" variant="primary" fullWidth>
+          <Button type="submit" variant="primary" fullWidth loading={submitting}>
             Sign Up
           </Button>
         </form>
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Button } from "@repo/ui/button";
+import { ApiError, useApi } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+
+type VerifyState = "verifying" | "verified" | "failed" | "no-token";
+
+const ResendVerification: React.FC = () => {
+  const api = useApi();
+  const { status } = useAuth();
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const [sending, setSending] = useState(false);
+
+  if (status !== "authenticated") {
+    return (
+      <p className="text-sm text-gray-600 text-center">
+        <a href="/sign-in?next=/verify-email" className="text-indigo-600 hover:underline">
+          Sign in
+        </a>{" "}
+        to get a new verification email.
+      </p>
+    );
+  }
+
+  const resend = async () => {
+    setMessage("");
+    setError("");
+    setSending(true);
+    try {
+      setMessage((await api.auth.resendVerification()).message);
+    } catch (err) {
+      if (err instanceof ApiError && err.code === "EMAIL_ALREADY_VERIFIED") {
+        setMessage("Your email address is already verified.");
+      } else {
+        setError(err instanceof ApiError ? err.message : "Could not send the verification email");
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {message && (
+        <p role="status" className="text-sm text-gray-700 text-center">
+          {message}
+        </p>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600 text-center">
+          {error}
+        </p>
+      )}
+      <Button variant="outline" fullWidth loading={sending} onClick={resend}>
+        Resend Verification Email
+      </Button>
+    </div>
+  );
+};
+
+const VerifyEmail: React.FC = () => {
+  const api = useApi();
+  const [state, setState] = useState<VerifyState>("verifying");
+  const [error, setError] = useState("");
+  // Tokens are single use, so the request must not repeat when the effect
+  // runs twice in development
+  const requested = useRef(false);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+
+    if (!token) {
+      setState("no-token");
+      return;
+    }
+
+    if (requested.current) return;
+    requested.current = true;
+
+    api.auth
+      .verifyEmail({ body: { token } })
+      .then(() => setState("verified"))
+      .catch((err) => {
+        setError(
+          err instanceof ApiError && err.code === "INVALID_OR_EXPIRED_TOKEN"
+            ? "This verification link is invalid or has expired."
+            : err instanceof ApiError
+              ? err.message
+              : "Could not verify your email address"
+        );
+        setState("failed");
+      });
+  }, [api]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="bg-white shadow-lg rounded-xl p-8 w-full max-w-md space-y-5">
+        <h1 className="text-2xl font-bold text-center text-gray-900">Verify Your Email</h1>
+        {state === "verifying" && (
+          <p role="status" className="text-sm text-gray-600 text-center">
+            Verifying your email address…
+          </p>
+        )}
+        {state === "verified" && (
+          <>
+            <p role="status" className="text-sm text-gray-700 text-center">
+              Your email address is verified. You can now take tests and join leaderboards.
+            </p>
+            <p className="text-center text-sm">
+              <Link href="/" className="text-indigo-600 hover:underline">
+                Continue
+              </Link>
+            </p>
+          </>
+        )}
+        {state === "failed" && (
+          <>
+            <p role="alert" className="text-sm text-red-600 text-center">
+              {error}
+            </p>
+            <ResendVerification />
+          </>
+        )}
+        {state === "no-token" && (
+          <>
+            <p className="text-sm text-gray-600 text-center">
+              Open the link in the email we sent you to verify your address, or request a new one.
+            </p>
+            <ResendVerification />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { callApi, clearRefreshCookie } from "../../../../lib/session";
+
+export async function POST(request: NextRequest) {
+  const token = request.headers.get("authorization")?.replace(/^Bearer /, "");
+
+  if (token) {
+    await callApi(request, "/logout", { token }).catch((error) => console.error(error));
+  }
+
+  const response = NextResponse.json({ message: "Logged out successfully" });
+  clearRefreshCookie(response);
+  return response;
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { callApi, REFRESH_COOKIE, toSessionResponse } from "../../../../lib/session";
+
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json(
+      { code: "UNAUTHENTICATED", message: "Not signed in" },
+      { status: 401 }
+    );
+  }
+
+  return toSessionResponse(request, await callApi(request, "/refresh", { body: { refreshToken } }));
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { callApi, toSessionResponse } from "../../../../lib/session";
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  return toSessionResponse(request, await callApi(request, "/sign-up", { body }));
+}
@@ -2,6 +2,7 @@ import "@repo/ui/styles.css";
 import "./globals.css";
 import type { Metadata } from "next";
 import { Geist } from "next/font/google";
+import { AuthProvider } from "../lib/auth";
 
 const geist = Geist({ subsets: ["latin"] });
 
@@ -17,7 +18,9 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={`${geist.className} text-gray-900`} >{children}</body>
+      <body className={`${geist.className} text-gray-900`} >
+        <AuthProvider>{children}</AuthProvider>
+      </body>
     </html>
   );
 }
@@ -0,0 +1,267 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@repo/ui/button";
+import { formatDuration } from "@repo/ui/countdown";
+import { testContract } from "@repo/common/contracts";
+import type { RouteOutput } from "@repo/api-client";
+import { RequireAuth } from "../../../lib/auth";
+import { ApiError, useApi } from "../../../lib/api";
+import { AnswerReview } from "../../../lib/answer-input";
+import { Stimulus } from "../../../lib/stimulus";
+import { Markdown } from "../../../lib/markdown";
+
+type TestResults = RouteOutput<typeof testContract.routes.results>;
+type QuestionResult = TestResults["questions"][number];
+type ScoreBreakdown = TestResults["test"]["scoreBreakdown"];
+type Filter = "all" | "wrong" | "skipped" | "flagged";
+
+const FILTERS: { value: Filter; label: string; matches: (question: QuestionResult) => boolean }[] =
+  [
+    { value: "all", label: "All", matches: () => true },
+    {
+      value: "wrong",
+      label: "Wrong",
+      matches: (question) => !question.isCorrect && !question.skipped,
+    },
+    { value: "skipped", label: "Skipped", matches: (question) => question.skipped },
+    { value: "flagged", label: "Flagged", matches: (question) => question.flagged },
+  ];
+
+const formatPercent = (part: number, whole: number) =>
+  whole === 0 ? "–" : `${Math.round((part / whole) * 100)}%`;
+
+const formatMarks = (marks: number) => String(Math.round(marks * 100) / 100);
+
+const Tag: React.FC<{ children: React.ReactNode; className: string }> = ({
+  children,
+  className,
+}) => (
+  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${className}`}>{children}</span>
+);
+
+const TopicMarksCell: React.FC<{ marks?: NonNullable<ScoreBreakdown>["byTopic"][number] }> = ({
+  marks,
+}) => (
+  <td className="py-2">
+    {marks ? `${formatMarks(marks.marks)}/${formatMarks(marks.maxMarks)}` : "–"}
+    {marks && marks.cutoff !== null && (
+      <span className={`ml-2 text-xs ${marks.passed ? "text-green-700" : "text-red-700"}`}>
+        {marks.passed ? "cleared" : "below"} cut-off {formatMarks(marks.cutoff)}
+      </span>
+    )}
+  </td>
+);
+
+const QuestionCard: React.FC<{
+  question: QuestionResult;
+  number: number;
+  group?: TestResults["groups"][number];
+}> = ({ question, number, group }) => (
+  <article className="space-y-4 rounded-xl border border-gray-200 p-6">
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+      <span className="font-semibold text-gray-900">Question {number}</span>
+      <span>
+        {question.topic.toLowerCase()} · {question.difficulty.toLowerCase()}
+      </span>
+      {question.isCorrect && <Tag className="bg-green-100 text-green-800">Correct</Tag>}
+      {!question.isCorrect && !question.skipped && question.credit > 0 && (
+        <Tag className="bg-yellow-100 text-yellow-800">
+          Partly right ({formatPercent(question.credit, 1)})
+        </Tag>
+      )}
+      {!question.isCorrect && !question.skipped && question.credit === 0 && (
+        <Tag className="bg-red-100 text-red-800">Wrong</Tag>
+      )}
+      {question.skipped && <Tag className="bg-gray-100 text-gray-700">Skipped</Tag>}
+      {question.flagged && <Tag className="bg-amber-100 text-amber-800">Flagged</Tag>}
+      {question.guessed && <Tag className="bg-indigo-100 text-indigo-800">Guessed</Tag>}
+      {question.answerChanges > 0 && (
+        <span>
+          changed {question.answerChanges} time{question.answerChanges === 1 ? "" : "s"}
+        </span>
+      )}
+      {question.timeSpentSeconds !== null && (
+        <span className="ml-auto">{formatDuration(Math.round(question.timeSpentSeconds))}</span>
+      )}
+    </div>
+
+    {group && (
+      <details className="rounded-lg border border-gray-200 p-4">
+        <summary className="cursor-pointer text-sm text-gray-700">About {group.title}</summary>
+        <Stimulus stimulus={group} className="mt-4" />
+      </details>
+    )}
+
+    <p className="text-gray-900 whitespace-pre-line">{question.text}</p>
+
+    <AnswerReview question={question} value={question.userAnswer} answer={question.answer} />
+
+    {question.explanation && (
+      <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-700">
+        <h3 className="mb-1 font-semibold text-gray-900">Explanation</h3>
+        <Markdown>{question.explanation}</Markdown>
+      </div>
+    )}
+  </article>
+);
+
+const Results: React.FC<{ testId: number }> = ({ testId }) => {
+  const api = useApi();
+  const [results, setResults] = useState<TestResults | null>(null);
+  const [filter, setFilter] = useState<Filter>("all");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    api.tests
+      .results({ params: { testId } })
+      .then(setResults)
+      .catch((err) =>
+        setError(err instanceof ApiError ? err.message : "Could not load the results")
+      );
+  }, [api, testId]);
+
+  if (!results) {
+    return error ? (
+      <p role="alert" className="text-sm text-red-600 text-center">
+        {error}
+      </p>
+    ) : (
+      <p className="text-center text-gray-500">Loading…</p>
+    );
+  }
+
+  const { test, totals, byTopic, questions, groups } = results;
+  const { matches } = FILTERS.find(({ value }) => value === filter)!;
+  const breakdown = test.scoreBreakdown;
+  const topicMarks = (topic: string) => breakdown?.byTopic.find((marks) => marks.topic === topic);
+
+  return (
+    <div className="space-y-8">
+      {breakdown && breakdown.passed !== null && (
+        <p
+          className={`rounded-lg px-4 py-3 text-center font-semibold ${
+            breakdown.passed ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+          }`}
+        >
+          {breakdown.passed ? "Passed" : "Not passed"}
+          {test.scoringRules.passMarks !== null &&
+            ` · pass mark ${formatMarks(test.scoringRules.passMarks)}`}
+        </p>
+      )}
+
+      <section className="grid grid-cols-2 gap-4 text-center md:grid-cols-4">
+        <div>
+          <p className="text-3xl font-bold text-gray-900">
+            {breakdown
+              ? `${formatMarks(breakdown.marks)}/${formatMarks(breakdown.maxMarks)}`
+              : `${totals.correct}/${totals.questions}`}
+          </p>
+          <p className="text-sm text-gray-500">
+            {breakdown ? `Marks · ${totals.correct} correct` : "Score"}
+          </p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-gray-900">
+            {formatPercent(totals.correct, totals.questions)}
+          </p>
+          <p className="text-sm text-gray-500">Accuracy</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-gray-900">{totals.skipped}</p>
+          <p className="text-sm text-gray-500">Skipped</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-gray-900">
+            {formatDuration(Math.round(totals.durationSeconds))}
+          </p>
+          <p className="text-sm text-gray-500">Time taken</p>
+        </div>
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-lg font-semibold text-gray-900">By topic</h2>
+        <table className="w-full text-left text-sm">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="py-2 font-medium">Topic</th>
+              <th className="py-2 font-medium">Correct</th>
+              <th className="py-2 font-medium">Wrong</th>
+              <th className="py-2 font-medium">Skipped</th>
+              <th className="py-2 font-medium">Accuracy</th>
+              {breakdown && <th className="py-2 font-medium">Marks</th>}
+              <th className="py-2 font-medium">Time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {byTopic.map((topic) => (
+              <tr key={topic.topic}>
+                <td className="py-2 capitalize">{topic.topic.toLowerCase()}</td>
+                <td className="py-2">{topic.correct}</td>
+                <td className="py-2">{topic.wrong}</td>
+                <td className="py-2">{topic.skipped}</td>
+                <td className="py-2">{formatPercent(topic.correct, topic.questions)}</td>
+                {breakdown && <TopicMarksCell marks={topicMarks(topic.topic)} />}
+                <td className="py-2">
+                  {topic.timeSpentSeconds === null
+                    ? "–"
+                    : formatDuration(Math.round(topic.timeSpentSeconds))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Show questions">
+          {FILTERS.map(({ value, label, matches }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={value === filter ? "primary" : "outline"}
+              aria-pressed={value === filter}
+              onClick={() => setFilter(value)}
+            >
+              {label} ({questions.filter(matches).length})
+            </Button>
+          ))}
+          <a href="/review" className="ml-auto self-center text-sm text-indigo-600 hover:underline">
+            Practice missed questions
+          </a>
+        </div>
+
+        {questions.map(
+          (question, index) =>
+            matches(question) && (
+              <QuestionCard
+                key={question.id}
+                question={question}
+                number={index + 1}
+                group={groups.find(({ id }) => id === question.groupId)}
+              />
+            )
+        )}
+        {!questions.some(matches) && (
+          <p className="text-center text-gray-500">No questions match this filter.</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default function ResultsPage() {
+  const { testId } = useParams<{ testId: string }>();
+
+  return (
+    <RequireAuth>
+      <div className="min-h-screen bg-gray-50 px-4 py-10">
+        <div className="mx-auto max-w-3xl bg-white shadow-lg rounded-xl p-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-6">Results</h1>
+          <Results testId={Number(testId)} />
+        </div>
+      </div>
+    </RequireAuth>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@repo/ui/button";
+import { reviewContract } from "@repo/common/contracts";
+import type { QuestionResponse } from "@repo/common/types";
+import type { RouteOutput } from "@repo/api-client";
+import { RequireAuth } from "../../lib/auth";
+import { ApiError, useApi } from "../../lib/api";
+import { AnswerInput, AnswerReview } from "../../lib/answer-input";
+import { Stimulus } from "../../lib/stimulus";
+
+type ReviewQueue = RouteOutput<typeof reviewContract.routes.due>;
+type ReviewResult = RouteOutput<typeof reviewContract.routes.answer>;
+type Confidence = "GUESSED" | "HARD" | "GOOD" | "EASY";
+
+const CONFIDENCE_CHOICES: { value: Confidence; label: string }[] = [
+  { value: "GUESSED", label: "Guessed" },
+  { value: "HARD", label: "Hard" },
+  { value: "GOOD", label: "Good" },
+  { value: "EASY", label: "Easy" },
+];
+
+const formatInterval = (days: number) => (days === 1 ? "tomorrow" : `in ${days} days`);
+
+const ReviewSession: React.FC = () => {
+  const api = useApi();
+  const [queue, setQueue] = useState<ReviewQueue | null>(null);
+  const [position, setPosition] = useState(0);
+  const [selected, setSelected] = useState<QuestionResponse | null>(null);
+  const [result, setResult] = useState<ReviewResult | null>(null);
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    setError("");
+    try {
+      setQueue(await api.reviews.due({ query: { limit: 20 } }));
+      setPosition(0);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Could not load your review queue");
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const item = queue?.items[position];
+
+  const submit = async (confidence: Confidence) => {
+    if (!item || selected === null) return;
+
+    setError("");
+    setSubmitting(true);
+    try {
+      setResult(
+        await api.reviews.answer({
+          params: { reviewItemId: item.id },
+          body: { answer: selected, confidence },
+        })
+      );
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Could not save your answer");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const next = () => {
+    setSelected(null);
+    setResult(null);
+
+    // The queue is fetched in batches; the next batch picks up whatever is
+    // still due.
+    if (queue && position + 1 >= queue.items.length) {
+      loadQueue();
+    } else {
+      setPosition(position + 1);
+    }
+  };
+
+  if (!queue) {
+    return error ? (
+      <p role="alert" className="text-sm text-red-600 text-center">
+        {error}
+      </p>
+    ) : (
+      <p className="text-center text-gray-500">Loading…</p>
+    );
+  }
+
+  if (!item) {
+    return (
+      <div className="text-center space-y-2">
+        <h2 className="text-xl font-semibold">You&apos;re all caught up</h2>
+        <p className="text-gray-600">
+          {queue.total === 0
+            ? "Questions you miss or guess in tests will show up here for review."
+            : "No questions are due right now. Come back tomorrow."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between text-sm text-gray-500">
+        <span>
+          {item.question.topic.toLowerCase()} · {item.question.difficulty.toLowerCase()}
+        </span>
+        <span>{queue.due - position} due</span>
+      </div>
+
+      {item.question.group && (
+        <Stimulus
+          stimulus={item.question.group}
+          className="rounded-lg border border-gray-200 p-4 max-h-96 overflow-y-auto"
+        />
+      )}
+
+      <p className="text-lg text-gray-900 whitespace-pre-line">{item.question.text}</p>
+
+      {result ? (
+        <AnswerReview question={item.question} value={selected} answer={result.answer} />
+      ) : (
+        <AnswerInput
+          key={item.id}
+          question={item.question}
+          value={selected}
+          onChange={setSelected}
+        />
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 text-center">
+          {error}
+        </p>
+      )}
+
+      {result ? (
+        <div className="space-y-4">
+          <p className={result.isCorrect ? "text-green-700" : "text-red-700"}>
+            {result.isCorrect ? "Correct!" : result.credit > 0 ? "Partly right." : "Not quite."}{" "}
+            You&apos;ll see this question again {formatInterval(result.item.interval)}.
+          </p>
+          <Button variant="primary" fullWidth onClick={next}>
+            Next question
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">How sure are you?</p>
+          <div className="grid grid-cols-4 gap-2">
+            {CONFIDENCE_CHOICES.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant="outline"
+                disabled={selected === null || submitting}
+                onClick={() => submit(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default function ReviewPage() {
+  return (
+    <RequireAuth>
+      <div className="min-h-screen bg-gray-50 px-4 py-10">
+        <div className="mx-auto max-w-2xl bg-white shadow-lg rounded-xl p-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-6">Review</h1>
+          <ReviewSession />
+        </div>
+      </div>
+    </RequireAuth>
+  );
+}
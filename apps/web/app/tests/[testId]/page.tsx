@@ -0,0 +1,382 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Button } from "@repo/ui/button";
+import { Countdown } from "@repo/ui/countdown";
+import { Dialog } from "@repo/ui/dialog";
+import { QuestionPalette, type PaletteStatus } from "@repo/ui/question-palette";
+import { testContract } from "@repo/common/contracts";
+import type { QuestionResponse } from "@repo/common/types";
+import type { RouteInput, RouteOutput } from "@repo/api-client";
+import { RequireAuth } from "../../../lib/auth";
+import { ApiError, useApi } from "../../../lib/api";
+import { AnswerInput } from "../../../lib/answer-input";
+import { Stimulus } from "../../../lib/stimulus";
+
+type TestView = RouteOutput<typeof testContract.routes.get>["test"];
+type TestQuestionView = TestView["questions"][number];
+type QuestionEvents = RouteInput<typeof testContract.routes.events>["body"]["events"];
+type SaveState = "saving" | "saved" | "error";
+
+// Errors after which the server has already submitted the test
+const CLOSED_TEST_CODES = ["TEST_ALREADY_SUBMITTED", "TEST_TIME_EXPIRED"];
+
+const getPaletteStatus = (question: TestQuestionView | undefined): PaletteStatus => {
+  if (!question) return "locked";
+
+  const answered = question.userAnswer !== null;
+  if (question.flagged) return answered ? "answered-flagged" : "flagged";
+  return answered ? "answered" : "unanswered";
+};
+
+const getDeadline = (test: TestView) =>
+  test.remainingSeconds === null ? null : Date.now() + test.remainingSeconds * 1000;
+
+const TestRunner: React.FC<{ testId: number }> = ({ testId }) => {
+  const api = useApi();
+  const router = useRouter();
+  const [test, setTest] = useState<TestView | null>(null);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [current, setCurrent] = useState(0);
+  const [saveStates, setSaveStates] = useState<Record<number, SaveState>>({});
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  // Saves run one at a time so answers reach the server in the order given
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  // The question on screen and since when, for reporting time spent
+  const viewing = useRef<{ testQuestionId: number; since: number } | null>(null);
+
+  const loadTest = useCallback(async () => {
+    try {
+      const { test } = await api.tests.get({ params: { testId } });
+      setTest(test);
+      setDeadline(getDeadline(test));
+      return test;
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Could not load the test");
+      return null;
+    }
+  }, [api, testId]);
+
+  useEffect(() => {
+    loadTest();
+  }, [loadTest]);
+
+  // Timing is best effort and never gets in the way of the test
+  const reportEvents = useCallback(
+    (events: QuestionEvents) =>
+      api.tests.events({ params: { testId }, body: { events } }).catch(() => undefined),
+    [api, testId]
+  );
+
+  const startView = useCallback(
+    (testQuestionId: number) => {
+      viewing.current = { testQuestionId, since: Date.now() };
+      reportEvents([{ type: "VIEW", testQuestionId }]);
+    },
+    [reportEvents]
+  );
+
+  const endView = useCallback(async () => {
+    const view = viewing.current;
+    viewing.current = null;
+
+    if (view) {
+      await reportEvents([
+        { type: "DWELL", testQuestionId: view.testQuestionId, durationMs: Date.now() - view.since },
+      ]);
+    }
+  }, [reportEvents]);
+
+  const submitted = Boolean(test?.submittedAt);
+  const visibleQuestionId = submitted ? null : (test?.questions[current]?.id ?? null);
+
+  // Time only counts while the question is on screen and the tab is visible
+  useEffect(() => {
+    if (visibleQuestionId === null) return;
+
+    startView(visibleQuestionId);
+
+    const handleVisibilityChange = () =>
+      document.hidden ? endView() : startView(visibleQuestionId);
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      endView();
+    };
+  }, [visibleQuestionId, startView, endView]);
+
+  useEffect(() => {
+    if (submitted) router.replace(`/results/${testId}`);
+  }, [submitted, router, testId]);
+
+  const updateQuestion = (id: number, changes: Partial<TestQuestionView>) =>
+    setTest(
+      (test) =>
+        test && {
+          ...test,
+          questions: test.questions.map((question) =>
+            question.id === id ? { ...question, ...changes } : question
+          ),
+        }
+    );
+
+  const handleSaveError = async (err: unknown, id: number) => {
+    if (err instanceof ApiError && CLOSED_TEST_CODES.includes(err.code)) {
+      await loadTest();
+      return;
+    }
+
+    setSaveStates((states) => ({ ...states, [id]: "error" }));
+    setError(err instanceof ApiError ? err.message : "Could not save your answer");
+  };
+
+  const saveAnswer = (question: TestQuestionView, answer: QuestionResponse, guessed: boolean) => {
+    updateQuestion(question.id, { userAnswer: answer, guessed });
+    setSaveStates((states) => ({ ...states, [question.id]: "saving" }));
+    setError("");
+
+    saveQueue.current = saveQueue.current.then(async () => {
+      try {
+        await api.tests.answer({
+          params: { testId, testQuestionId: question.id },
+          body: { answer, guessed },
+        });
+        setSaveStates((states) => ({ ...states, [question.id]: "saved" }));
+
+        // Adaptive tests serve the next question once the answer is in
+        if (test?.mode === "ADAPTIVE") {
+          const updated = await loadTest();
+          if (updated) setCurrent(updated.questions.length - 1);
+        }
+      } catch (err) {
+        await handleSaveError(err, question.id);
+      }
+    });
+  };
+
+  const toggleFlag = (question: TestQuestionView) => {
+    const flagged = !question.flagged;
+    updateQuestion(question.id, { flagged });
+
+    saveQueue.current = saveQueue.current.then(async () => {
+      try {
+        await api.tests.flag({
+          params: { testId, testQuestionId: question.id },
+          body: { flagged },
+        });
+      } catch (err) {
+        updateQuestion(question.id, { flagged: !flagged });
+        await handleSaveError(err, question.id);
+      }
+    });
+  };
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError("");
+
+    // Let pending answers and the current question's time land before the
+    // test is scored
+    await Promise.all([saveQueue.current, endView()]);
+
+    try {
+      const { test } = await api.tests.submit({ params: { testId } });
+      setTest(test);
+      setConfirmOpen(false);
+    } catch (err) {
+      if (err instanceof ApiError && CLOSED_TEST_CODES.includes(err.code)) {
+        await loadTest();
+        setConfirmOpen(false);
+      } else {
+        setError(err instanceof ApiError ? err.message : "Could not submit the test");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!test) {
+    return error ? (
+      <p role="alert" className="text-sm text-red-600 text-center">
+        {error}
+      </p>
+    ) : (
+      <p className="text-center text-gray-500">Loading…</p>
+    );
+  }
+
+  if (test.submittedAt) {
+    return <p className="text-center text-gray-500">Test submitted, loading your results…</p>;
+  }
+
+  const question = test.questions[current];
+  const adaptive = test.mode === "ADAPTIVE";
+  const unanswered = test.questions.filter((question) => question.userAnswer === null).length;
+  const flagged = test.questions.filter((question) => question.flagged).length;
+  const saveState = question && saveStates[question.id];
+  const { wrong: wrongMarks, unattempted: unattemptedMarks } = test.scoringRules;
+  // Answers in an adaptive test are final
+  const locked = adaptive && question !== undefined && question.userAnswer !== null;
+  const group = test.groups.find(({ id }) => id === question?.groupId);
+  // A group's questions are consecutive, so these are its first and last
+  const groupNumbers = test.questions.flatMap((other, index) =>
+    group && other.groupId === group.id ? [index + 1] : []
+  );
+
+  return (
+    <div className="grid gap-8 md:grid-cols-[1fr_auto]">
+      <section className="space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-xl font-semibold text-gray-900">
+            Question {current + 1} of {test.questionCount}
+          </h1>
+          {deadline !== null && <Countdown deadline={deadline} onExpire={loadTest} />}
+        </header>
+
+        {question && (
+          <div className={group ? "grid gap-6 lg:grid-cols-2" : ""}>
+            {group && (
+              <Stimulus
+                stimulus={group}
+                className="rounded-lg border border-gray-200 p-4 lg:max-h-[70vh] lg:overflow-y-auto"
+              />
+            )}
+            <div className="space-y-6">
+              {group && (
+                <p className="text-sm text-gray-500">
+                  {groupNumbers.length > 1
+                    ? `Questions ${groupNumbers[0]}–${groupNumbers[groupNumbers.length - 1]} are`
+                    : `Question ${groupNumbers[0]} is`}{" "}
+                  about {group.title}
+                </p>
+              )}
+              <p className="text-lg text-gray-900 whitespace-pre-line">{question.text}</p>
+
+              <AnswerInput
+                key={question.id}
+                question={question}
+                value={question.userAnswer}
+                disabled={locked}
+                onChange={(answer) => saveAnswer(question, answer, question.guessed)}
+              />
+
+              <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+                <label className="flex items-center gap-2 text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={question.guessed}
+                    disabled={locked}
+                    onChange={(event) =>
+                      question.userAnswer !== null
+                        ? saveAnswer(question, question.userAnswer, event.target.checked)
+                        : updateQuestion(question.id, { guessed: event.target.checked })
+                    }
+                  />
+                  I&apos;m guessing
+                </label>
+                <span aria-live="polite" className="text-gray-500">
+                  {saveState === "saving" && "Saving…"}
+                  {saveState === "saved" && "Saved"}
+                  {saveState === "error" && (
+                    <span className="text-red-600">Not saved, answer again to retry</span>
+                  )}
+                </span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600">
+            {error}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <Button variant="ghost" disabled={current === 0} onClick={() => setCurrent(current - 1)}>
+            Previous
+          </Button>
+          {question && (
+            <Button variant="outline" onClick={() => toggleFlag(question)}>
+              {question.flagged ? "Unmark review" : "Mark for review"}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            disabled={current + 1 >= test.questions.length}
+            onClick={() => setCurrent(current + 1)}
+          >
+            Next
+          </Button>
+          <Button variant="primary" className="ml-auto" onClick={() => setConfirmOpen(true)}>
+            Submit test
+          </Button>
+        </div>
+      </section>
+
+      <aside>
+        <QuestionPalette
+          items={Array.from({ length: test.questionCount }, (_, index) => ({
+            status: getPaletteStatus(test.questions[index]),
+          }))}
+          current={current}
+          onSelect={setCurrent}
+        />
+      </aside>
+
+      <Dialog
+        open={confirmOpen}
+        title="Submit this test?"
+        onClose={() => setConfirmOpen(false)}
+        actions={
+          <>
+            <Button variant="ghost" onClick={() => setConfirmOpen(false)}>
+              Keep going
+            </Button>
+            <Button variant="primary" loading={submitting} onClick={submit}>
+              Submit
+            </Button>
+          </>
+        }
+      >
+        {wrongMarks < 0 && (
+          <p className="mb-2">
+            Wrong answers lose {-wrongMarks} mark{wrongMarks === -1 ? "" : "s"} each, so only guess
+            if you can rule out some options.
+          </p>
+        )}
+        {unanswered > 0 || flagged > 0 ? (
+          <p>
+            {unanswered > 0 &&
+              `${unanswered} question${unanswered === 1 ? " is" : "s are"} unanswered. `}
+            {flagged > 0 &&
+              `${flagged} question${flagged === 1 ? " is" : "s are"} marked for review. `}
+            {unattemptedMarks < 0
+              ? `Unanswered questions lose ${-unattemptedMarks} mark${unattemptedMarks === -1 ? "" : "s"} each.`
+              : "Unanswered questions score no marks."}
+          </p>
+        ) : (
+          <p>You have answered every question. Answers can&apos;t be changed after submitting.</p>
+        )}
+      </Dialog>
+    </div>
+  );
+};
+
+export default function TestPage() {
+  const { testId } = useParams<{ testId: string }>();
+
+  return (
+    <RequireAuth>
+      <div className="min-h-screen bg-gray-50 px-4 py-10">
+        <div className="mx-auto max-w-5xl bg-white shadow-lg rounded-xl p-8">
+          <TestRunner testId={Number(testId)} />
+        </div>
+      </div>
+    </RequireAuth>
+  );
+}
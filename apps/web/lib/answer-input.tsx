@@ -0,0 +1,223 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@repo/ui/button";
+import { ChoiceOption, type ChoiceState } from "@repo/ui/choice-option";
+import { Input } from "@repo/ui/input";
+import { OrderingList } from "@repo/ui/ordering-list";
+import type { AnswerKey, QuestionOption, QuestionResponse, QuestionType } from "@repo/common/types";
+import { Markdown } from "./markdown";
+
+type AnswerableQuestion = {
+  type: QuestionType;
+  options: QuestionOption[];
+};
+
+const MARKERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+const asList = (value: QuestionResponse | AnswerKey | null) => (Array.isArray(value) ? value : []);
+
+const moveItem = (ids: string[], from: number, to: number) => {
+  const moved = [...ids];
+  const [id] = moved.splice(from, 1);
+  moved.splice(to, 0, id!);
+  return moved;
+};
+
+const labelOf = (question: AnswerableQuestion, id: string) =>
+  question.options.find((option) => option.id === id)?.label ?? id;
+
+// Options with Markdown content show it in place of the plain label
+const optionBody = (option: QuestionOption) =>
+  option.content ? <Markdown inline>{option.content}</Markdown> : option.label;
+
+const bodyOf = (question: AnswerableQuestion, id: string) => {
+  const option = question.options.find((candidate) => candidate.id === id);
+
+  return option ? optionBody(option) : id;
+};
+
+const NumericInput: React.FC<{
+  value: number | null;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}> = ({ value, disabled, onChange }) => {
+  const [draft, setDraft] = useState(value === null ? "" : String(value));
+
+  useEffect(() => setDraft(value === null ? "" : String(value)), [value]);
+
+  // Saved when the field loses focus or on Enter, not on every keystroke
+  const commit = () => {
+    const parsed = Number(draft);
+
+    if (draft.trim() !== "" && Number.isFinite(parsed) && parsed !== value) {
+      onChange(parsed);
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      step="any"
+      inputMode="decimal"
+      label="Your answer"
+      value={draft}
+      disabled={disabled}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => event.key === "Enter" && commit()}
+    />
+  );
+};
+
+// Answer widget for each question type: options to pick one or several of,
+// a number field, or a list to put in order
+export const AnswerInput: React.FC<{
+  question: AnswerableQuestion;
+  value: QuestionResponse | null;
+  onChange: (value: QuestionResponse) => void;
+  disabled?: boolean;
+}> = ({ question, value, onChange, disabled = false }) => {
+  switch (question.type) {
+    case "SINGLE_CHOICE":
+    case "MULTI_SELECT": {
+      const multiple = question.type === "MULTI_SELECT";
+      const selected = multiple ? asList(value) : [value];
+
+      // A multi-select answer keeps at least one option, as answers cannot be
+      // cleared once saved
+      const toggle = (id: string) => {
+        const next = selected.includes(id)
+          ? asList(value).filter((selectedId) => selectedId !== id)
+          : [...asList(value), id];
+
+        if (next.length > 0) onChange(next);
+      };
+
+      return (
+        <div
+          role={multiple ? "group" : "radiogroup"}
+          aria-label={multiple ? "Options, pick all that apply" : "Options"}
+          className="space-y-3"
+        >
+          {multiple && <p className="text-sm text-gray-500">Pick all that apply.</p>}
+          {question.options.map((option, index) => (
+            <ChoiceOption
+              key={option.id}
+              marker={MARKERS[index]}
+              multiple={multiple}
+              state={selected.includes(option.id) ? "selected" : "default"}
+              disabled={disabled}
+              onSelect={() => (multiple ? toggle(option.id) : onChange(option.id))}
+            >
+              {optionBody(option)}
+            </ChoiceOption>
+          ))}
+        </div>
+      );
+    }
+    case "NUMERIC":
+      return (
+        <NumericInput
+          value={typeof value === "number" ? value : null}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      );
+    case "ORDERING": {
+      const order = Array.isArray(value) ? value : question.options.map((option) => option.id);
+
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Move the items into the right order.</p>
+          <OrderingList
+            items={order.map((id) => ({ id, label: bodyOf(question, id) }))}
+            disabled={disabled}
+            onMove={(from, to) => onChange(moveItem(order, from, to))}
+          />
+          {value === null && (
+            <Button variant="outline" size="sm" disabled={disabled} onClick={() => onChange(order)}>
+              Keep this order
+            </Button>
+          )}
+        </div>
+      );
+    }
+  }
+};
+
+const getChoiceState = (selected: boolean, correct: boolean): ChoiceState => {
+  if (correct) return "correct";
+  if (selected) return "incorrect";
+  return "default";
+};
+
+// A given answer next to the answer key, once the question is marked
+export const AnswerReview: React.FC<{
+  question: AnswerableQuestion;
+  value: QuestionResponse | null;
+  answer: AnswerKey;
+}> = ({ question, value, answer }) => {
+  switch (question.type) {
+    case "SINGLE_CHOICE":
+    case "MULTI_SELECT": {
+      const multiple = question.type === "MULTI_SELECT";
+      const selected = multiple ? asList(value) : [value];
+      const correct = multiple ? asList(answer) : [answer];
+
+      return (
+        <div role={multiple ? "group" : "radiogroup"} aria-label="Options" className="space-y-2">
+          {question.options.map((option, index) => (
+            <ChoiceOption
+              key={option.id}
+              marker={MARKERS[index]}
+              multiple={multiple}
+              state={getChoiceState(selected.includes(option.id), correct.includes(option.id))}
+              disabled
+            >
+              {optionBody(option)}
+            </ChoiceOption>
+          ))}
+        </div>
+      );
+    }
+    case "NUMERIC": {
+      const { value: correct, tolerance } = answer as Extract<AnswerKey, { value: number }>;
+
+      return (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-gray-500">Your answer</dt>
+          <dd className="text-gray-900">{typeof value === "number" ? value : "–"}</dd>
+          <dt className="text-gray-500">Correct answer</dt>
+          <dd className="text-gray-900">
+            {correct}
+            {tolerance > 0 && ` (± ${tolerance})`}
+          </dd>
+        </dl>
+      );
+    }
+    case "ORDERING": {
+      const key = asList(answer);
+      const order = asList(value);
+
+      return (
+        <div className="space-y-3">
+          {order.length > 0 && (
+            <OrderingList
+              items={order.map((id, index) => ({
+                id,
+                label: bodyOf(question, id),
+                state: key[index] === id ? "correct" : "incorrect",
+              }))}
+            />
+          )}
+          {order.join() !== key.join() && (
+            <p className="text-sm text-gray-700">
+              Correct order: {key.map((id) => labelOf(question, id)).join(" → ")}
+            </p>
+          )}
+        </div>
+      );
+    }
+  }
+};
@@ -0,0 +1,22 @@
+type Issue = {
+  path: PropertyKey[];
+  message: string;
+};
+
+// First message for each top-level field. Used for both client-side zod
+// results and server responses, so both show the same text.
+export const issuesToFieldErrors = (issues: readonly Issue[]): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+
+  for (const issue of issues) {
+    const field = String(issue.path?.[0] ?? "form");
+    fieldErrors[field] ??= issue.message;
+  }
+
+  return fieldErrors;
+};
+
+// Field errors from an API error body; VALIDATION_FAILED responses list the
+// invalid fields as `issues`.
+export const toFieldErrors = (body: { issues?: Issue[] }): Record<string, string> =>
+  Array.isArray(body.issues) ? issuesToFieldErrors(body.issues) : {};
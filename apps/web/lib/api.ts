@@ -0,0 +1,20 @@
+"use client";
+
+import { useMemo } from "react";
+import { createApiClient } from "@repo/api-client";
+import { useAuth } from "./auth";
+
+// The browser talks to the API server directly; only the refresh token flow
+// goes through the Next.js auth routes.
+const PUBLIC_API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
+
+export { ApiError } from "@repo/api-client";
+
+export const useApi = () => {
+  const { getAccessToken } = useAuth();
+
+  return useMemo(
+    () => createApiClient({ baseUrl: PUBLIC_API_URL, getAccessToken }),
+    [getAccessToken]
+  );
+};
@@ -0,0 +1,307 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Button } from "@repo/ui/button";
+import { toFieldErrors } from "./api-errors";
+
+export type AuthUser = {
+  id: number;
+  name: string;
+  email: string;
+  role: "USER" | "ADMIN";
+  emailVerified: boolean;
+};
+
+// "unavailable" means the session could not be refreshed for a reason other
+// than being signed out, such as a rate limit or a network error
+type AuthStatus = "loading" | "authenticated" | "unauthenticated" | "unavailable";
+
+export type AuthResult =
+  | { ok: true }
+  | { ok: false; message: string; fieldErrors: Record<string, string> };
+
+type AuthContextValue = {
+  status: AuthStatus;
+  user: AuthUser | null;
+  // Current access token, refreshed first if it is about to expire
+  getAccessToken: () => Promise<string | null>;
+  signIn: (data: { email: string; password: string }) => Promise<AuthResult>;
+  signUp: (data: { name: string; email: string; password: string }) => Promise<AuthResult>;
+  signOut: () => Promise<void>;
+};
+
+type Session = {
+  token: string;
+  user: AuthUser;
+  expiresAt: number;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+// The session is kept in localStorage so that page loads and other tabs reuse
+// a valid access token instead of spending the single-use refresh token
+const SESSION_STORAGE_KEY = "auth_session";
+
+const REFRESH_LOCK = "auth-refresh";
+
+const isFresh = (session: Session | null): session is Session =>
+  session !== null && session.expiresAt - EXPIRY_MARGIN_MS > Date.now();
+
+const readStoredSession = (): Session | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+const storeSession = (session: Session | null) => {
+  try {
+    if (session) {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch {
+    // Storage can be unavailable, e.g. in some private windows
+  }
+};
+
+const readExpiry = (token: string) => {
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1]!.replace(/-/g, "+").replace(/_/g, "/")));
+    return payload.exp * 1000;
+  } catch {
+    return 0;
+  }
+};
+
+const postJson = async (path: string, body?: unknown, token?: string) => {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "same-origin",
+  });
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    data: await response.json().catch(() => ({})),
+  };
+};
+
+const toSession = (data: { token: string; user: AuthUser }): Session => ({
+  token: data.token,
+  user: data.user,
+  expiresAt: readExpiry(data.token),
+});
+
+type RefreshResult = Session | "signed-out" | "unavailable";
+
+// Only a 401 means the refresh token is no longer valid; the route clears the
+// cookie in that case, so middleware.ts stops treating the user as signed in
+const requestRefresh = (): Promise<RefreshResult> =>
+  postJson("/api/auth/refresh")
+    .then(({ ok, status, data }): RefreshResult => {
+      if (ok) {
+        const session = toSession(data);
+        storeSession(session);
+        return session;
+      }
+
+      if (status === 401) {
+        storeSession(null);
+        return "signed-out";
+      }
+
+      return "unavailable";
+    })
+    .catch(() => "unavailable" as const);
+
+// Web Locks serialize refreshes across tabs. Browsers without them fall back
+// to refreshing per tab.
+const withRefreshLock = async (task: () => Promise<RefreshResult>) =>
+  navigator.locks ? await navigator.locks.request(REFRESH_LOCK, task) : task();
+
+// Refresh tokens are single use, so tabs take turns and reuse a token another
+// tab got while they waited, and concurrent refreshes within a tab (e.g. React
+// strict mode running effects twice) share one request.
+let refreshInFlight: Promise<RefreshResult> | null = null;
+
+const refreshSession = () => {
+  refreshInFlight ??= withRefreshLock(() => {
+    const stored = readStoredSession();
+    return isFresh(stored) ? Promise.resolve(stored) : requestRefresh();
+  }).finally(() => {
+    refreshInFlight = null;
+  });
+
+  return refreshInFlight;
+};
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const session = useRef<Session | null>(null);
+
+  const applySession = useCallback((next: Session | null) => {
+    session.current = next;
+    setUser(next?.user ?? null);
+    setStatus(next ? "authenticated" : "unauthenticated");
+  }, []);
+
+  useEffect(() => {
+    const stored = readStoredSession();
+
+    if (isFresh(stored)) {
+      applySession(stored);
+      return;
+    }
+
+    refreshSession().then((result) => {
+      if (result === "unavailable") {
+        setStatus("unavailable");
+      } else {
+        applySession(result === "signed-out" ? null : result);
+      }
+    });
+  }, [applySession]);
+
+  // Follows sign-ins, refreshes and sign-outs in other tabs
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === SESSION_STORAGE_KEY) {
+        applySession(readStoredSession());
+      }
+    };
+
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [applySession]);
+
+  const getAccessToken = useCallback(async () => {
+    const current = session.current;
+
+    if (isFresh(current)) {
+      return current.token;
+    }
+
+    const result = await refreshSession();
+
+    // A refresh that failed without signing out leaves the session alone;
+    // the call made with the missing token fails on its own
+    if (result === "unavailable") {
+      return null;
+    }
+
+    const next = result === "signed-out" ? null : result;
+    applySession(next);
+    return next?.token ?? null;
+  }, [applySession]);
+
+  const authenticate = useCallback(
+    async (path: string, body: unknown): Promise<AuthResult> => {
+      const { ok, data } = await postJson(path, body).catch(() => ({
+        ok: false,
+        data: { message: "Could not reach the server" },
+      }));
+
+      if (!ok) {
+        return {
+          ok: false,
+          message: data.message ?? "Something went wrong",
+          fieldErrors: toFieldErrors(data),
+        };
+      }
+
+      const next = toSession(data);
+      storeSession(next);
+      applySession(next);
+      return { ok: true };
+    },
+    [applySession]
+  );
+
+  const signIn = useCallback(
+    (data: { email: string; password: string }) => authenticate("/api/auth/sign-in", data),
+    [authenticate]
+  );
+
+  const signUp = useCallback(
+    (data: { name: string; email: string; password: string }) =>
+      authenticate("/api/auth/sign-up", data),
+    [authenticate]
+  );
+
+  const signOut = useCallback(async () => {
+    await postJson("/api/auth/logout", undefined, session.current?.token).catch(() => undefined);
+    storeSession(null);
+    applySession(null);
+  }, [applySession]);
+
+  return (
+    <AuthContext.Provider value={{ status, user, getAccessToken, signIn, signUp, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+
+  return context;
+};
+
+// Client-side guard for protected pages. middleware.ts already redirects
+// requests without a session cookie; this also covers sessions that turn out
+// to be revoked or expired once the page has loaded.
+export function RequireAuth({ children }: { children: React.ReactNode }) {
+  const { status } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.replace(`/sign-in?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [status, router, pathname]);
+
+  // The session may still be valid, so this is not sent to sign in
+  if (status === "unavailable") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4">
+        <p role="alert" className="text-sm text-red-600 text-center">
+          Your session could not be restored right now. Please try again in a moment.
+        </p>
+        <Button variant="outline" onClick={() => window.location.reload()}>
+          Try again
+        </Button>
+      </div>
+    );
+  }
+
+  if (status !== "authenticated") {
+    return null;
+  }
+
+  return <>{children}</>;
+}
+
+// Where to go after signing in: the page that redirected to sign-in, if it is
+// a local path.
+export const getRedirectTarget = () => {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+};
@@ -0,0 +1,40 @@
+import React from "react";
+import ReactMarkdown from "react-markdown";
+
+// Tailwind resets list and heading styles, so they are restored for the
+// rendered elements here
+const STYLES = [
+  "[&_p:not(:last-child)]:mb-2",
+  "[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5",
+  "[&_a]:text-indigo-600 [&_a]:underline",
+  "[&_code]:rounded [&_code]:bg-gray-100 [&_code]:px-1 [&_code]:font-mono",
+  "[&_img]:my-2 [&_img]:max-h-64 [&_img]:max-w-full",
+  "[&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold",
+].join(" ");
+
+// Inside buttons only phrasing content is allowed, so everything else, links
+// included, is reduced to its text and paragraphs are shown as blocks
+const INLINE_ELEMENTS = ["p", "br", "strong", "em", "del", "code", "img"];
+
+// Renders authored Markdown such as explanations and option content. Raw
+// HTML in the source is not rendered. Use `inline` where the content sits
+// inside an interactive element.
+export const Markdown: React.FC<{ children: string; inline?: boolean; className?: string }> = ({
+  children,
+  inline = false,
+  className = "",
+}) => {
+  const Wrapper = inline ? "span" : "div";
+
+  return (
+    <Wrapper className={`${STYLES} ${inline ? "[&>span]:block" : ""} ${className}`}>
+      <ReactMarkdown
+        allowedElements={inline ? INLINE_ELEMENTS : undefined}
+        unwrapDisallowed={inline}
+        components={inline ? { p: "span" } : undefined}
+      >
+        {children}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+};
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Server-side helpers for the /api/auth route handlers. The refresh token is
+// kept in an httpOnly cookie so page scripts can never read it; only the
+// short-lived access token is handed to the browser.
+
+export const API_URL = process.env.API_URL ?? "http://localhost:4000/api/v1";
+
+export const REFRESH_COOKIE = "refresh_token";
+
+const REFRESH_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+
+// Reverse proxies in front of the web server, each of which appends the
+// address it was connected from to X-Forwarded-For. Entries to the left of
+// theirs come from the browser and can be anything.
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+
+// Shared with the API, which only trusts a client address signed with it
+const PROXY_SECRET = process.env.PROXY_SECRET;
+
+export const setRefreshCookie = (response: NextResponse, refreshToken: string) => {
+  response.cookies.set(REFRESH_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: REFRESH_COOKIE_MAX_AGE,
+  });
+};
+
+export const clearRefreshCookie = (response: NextResponse) => {
+  response.cookies.delete(REFRESH_COOKIE);
+};
+
+// The client address as recorded by the outermost trusted proxy. Next.js
+// fills X-Forwarded-For from the connection when no proxy set it, so without
+// a proxy this is the connection's address, unless the browser sent the
+// header itself; production deployments should sit behind a proxy.
+const getClientIp = (request: NextRequest) => {
+  const chain = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  return chain[chain.length - Math.max(TRUSTED_PROXY_HOPS, 1)] ?? null;
+};
+
+// Tells the API which browser a request is made for, so rate limits apply per
+// user rather than to the web server. The API trusts the plain header only
+// from loopback; the signed one works wherever the two servers run.
+const clientIpHeaders = async (request: NextRequest): Promise<Record<string, string>> => {
+  const clientIp = getClientIp(request);
+
+  if (!clientIp) {
+    return {};
+  }
+
+  if (!PROXY_SECRET) {
+    return { "X-Forwarded-For": clientIp };
+  }
+
+  // Web Crypto rather than node:crypto, as middleware.ts shares this module
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(PROXY_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(clientIp));
+
+  return {
+    "X-Forwarded-For": clientIp,
+    "X-Client-IP": clientIp,
+    "X-Client-IP-Signature": Array.from(new Uint8Array(signature), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join(""),
+  };
+};
+
+// Calls the HTTP server on behalf of the browser. Only the client address is
+// forwarded, never the X-Forwarded-For header the browser sent.
+export const callApi = async (
+  request: NextRequest,
+  path: string,
+  init: { method?: string; body?: unknown; token?: string } = {}
+) => {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: init.method ?? "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(await clientIpHeaders(request)),
+      ...(init.token && { Authorization: `Bearer ${init.token}` }),
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    cache: "no-store",
+  });
+
+  return {
+    status: response.status,
+    data: await response.json().catch(() => ({})),
+  };
+};
+
+// Completes a sign-in, sign-up or refresh: stores the new refresh token and
+// returns the access token together with the signed-in user.
+export const toSessionResponse = async (
+  request: NextRequest,
+  { status, data }: Awaited<ReturnType<typeof callApi>>
+) => {
+  if (status >= 400) {
+    const response = NextResponse.json(data, { status });
+    if (status === 401) {
+      clearRefreshCookie(response);
+    }
+    return response;
+  }
+
+  const { refreshToken, ...rest } = data;
+  const me = await callApi(request, "/me", { method: "GET", token: rest.token });
+
+  const response = NextResponse.json({ ...rest, user: me.data.user }, { status });
+  setRefreshCookie(response, refreshToken);
+  return response;
+};
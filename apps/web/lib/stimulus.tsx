@@ -0,0 +1,244 @@
+import React from "react";
+import type { StimulusChart, StimulusTable } from "@repo/common/types";
+
+type StimulusContent = {
+  title: string;
+  passage: string | null;
+  table: StimulusTable | null;
+  chart: StimulusChart | null;
+};
+
+const COLORS = [
+  "#4f46e5",
+  "#f59e0b",
+  "#10b981",
+  "#ef4444",
+  "#0ea5e9",
+  "#a855f7",
+  "#84cc16",
+  "#ec4899",
+  "#64748b",
+  "#14b8a6",
+];
+
+const colorOf = (index: number) => COLORS[index % COLORS.length];
+
+const WIDTH = 480;
+const HEIGHT = 260;
+const PLOT = { left: 16, right: WIDTH - 16, top: 24, bottom: HEIGHT - 40 };
+
+const formatValue = (value: number) => String(Math.round(value * 100) / 100);
+
+const TableView: React.FC<{ table: StimulusTable }> = ({ table }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm border border-gray-200">
+      {table.caption && <caption className="text-left text-gray-600 mb-1">{table.caption}</caption>}
+      <thead className="bg-gray-50">
+        <tr>
+          {table.columns.map((column) => (
+            <th key={column} scope="col" className="px-3 py-2 text-left font-medium text-gray-700">
+              {column}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row, rowIndex) => (
+          <tr key={rowIndex} className="border-t border-gray-200">
+            {row.map((cell, cellIndex) => (
+              <td
+                key={cellIndex}
+                className={`px-3 py-2 ${typeof cell === "number" ? "text-right tabular-nums" : ""}`}
+              >
+                {cell}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Bars or lines on a shared value axis, with every value labelled so it can
+// be read off exactly
+const AxisChart: React.FC<{ chart: StimulusChart }> = ({ chart }) => {
+  const values = chart.series.flatMap((series) => series.values);
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const range = max - min || 1;
+  const y = (value: number) => PLOT.top + ((max - value) / range) * (PLOT.bottom - PLOT.top);
+  const slot = (PLOT.right - PLOT.left) / chart.labels.length;
+  const barWidth = (slot * 0.8) / chart.series.length;
+
+  return (
+    <>
+      <line x1={PLOT.left} x2={PLOT.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+      {chart.labels.map((label, index) => (
+        <text
+          key={index}
+          x={PLOT.left + slot * (index + 0.5)}
+          y={PLOT.bottom + 16}
+          textAnchor="middle"
+          fontSize={11}
+          fill="#374151"
+        >
+          {label}
+        </text>
+      ))}
+      {chart.series.map((series, seriesIndex) =>
+        chart.kind === "BAR" ? (
+          <g key={series.name} fill={colorOf(seriesIndex)}>
+            {series.values.map((value, index) => {
+              const x = PLOT.left + slot * index + slot * 0.1 + barWidth * seriesIndex;
+
+              return (
+                <g key={index}>
+                  <rect
+                    x={x}
+                    y={Math.min(y(value), y(0))}
+                    width={barWidth}
+                    height={Math.abs(y(value) - y(0))}
+                  />
+                  <text
+                    x={x + barWidth / 2}
+                    y={value < 0 ? y(value) + 12 : y(value) - 4}
+                    textAnchor="middle"
+                    fontSize={10}
+                    fill="#111827"
+                  >
+                    {formatValue(value)}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        ) : (
+          <g key={series.name} stroke={colorOf(seriesIndex)} fill={colorOf(seriesIndex)}>
+            <polyline
+              fill="none"
+              strokeWidth={2}
+              points={series.values
+                .map((value, index) => `${PLOT.left + slot * (index + 0.5)},${y(value)}`)
+                .join(" ")}
+            />
+            {series.values.map((value, index) => (
+              <g key={index}>
+                <circle cx={PLOT.left + slot * (index + 0.5)} cy={y(value)} r={3} />
+                <text
+                  x={PLOT.left + slot * (index + 0.5)}
+                  y={y(value) - 8}
+                  textAnchor="middle"
+                  fontSize={10}
+                  stroke="none"
+                  fill="#111827"
+                >
+                  {formatValue(value)}
+                </text>
+              </g>
+            ))}
+          </g>
+        )
+      )}
+    </>
+  );
+};
+
+const PieChart: React.FC<{ chart: StimulusChart }> = ({ chart }) => {
+  const values = chart.series[0]?.values ?? [];
+  const total = values.reduce((sum, value) => sum + value, 0) || 1;
+  const radius = (PLOT.bottom - PLOT.top) / 2;
+  const center = { x: WIDTH / 2, y: PLOT.top + radius };
+  const point = (share: number) => ({
+    x: center.x + radius * Math.sin(share * 2 * Math.PI),
+    y: center.y - radius * Math.cos(share * 2 * Math.PI),
+  });
+
+  let start = 0;
+
+  return (
+    <>
+      {values.map((value, index) => {
+        const share = value / total;
+        const from = point(start);
+        const to = point(start + share);
+        start += share;
+
+        // A single full slice cannot be drawn as an arc
+        return share >= 1 ? (
+          <circle key={index} cx={center.x} cy={center.y} r={radius} fill={colorOf(index)} />
+        ) : (
+          <path
+            key={index}
+            d={`M ${center.x} ${center.y} L ${from.x} ${from.y} A ${radius} ${radius} 0 ${
+              share > 0.5 ? 1 : 0
+            } 1 ${to.x} ${to.y} Z`}
+            fill={colorOf(index)}
+            stroke="#fff"
+          />
+        );
+      })}
+    </>
+  );
+};
+
+const ChartView: React.FC<{ chart: StimulusChart }> = ({ chart }) => {
+  const pie = chart.kind === "PIE";
+  const legend = pie
+    ? chart.labels.map((label, index) => {
+        const values = chart.series[0]?.values ?? [];
+        const total = values.reduce((sum, value) => sum + value, 0);
+        const value = values[index] ?? 0;
+
+        return `${label}: ${formatValue(value)} (${total === 0 ? 0 : Math.round((value / total) * 100)}%)`;
+      })
+    : chart.series.map((series) => series.name);
+
+  return (
+    <figure className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={chart.caption ?? "Chart"}
+      >
+        {pie ? <PieChart chart={chart} /> : <AxisChart chart={chart} />}
+      </svg>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-700">
+        {legend.map((entry, index) => (
+          <li key={index} className="flex items-center gap-1">
+            <span
+              aria-hidden
+              className="inline-block h-3 w-3 rounded-sm"
+              style={{ backgroundColor: colorOf(index) }}
+            />
+            {entry}
+          </li>
+        ))}
+      </ul>
+      {(chart.caption || chart.unit) && (
+        <figcaption className="text-sm text-gray-600">
+          {chart.caption}
+          {chart.unit && ` (values in ${chart.unit})`}
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+// The passage, table and chart a group of questions is asked about
+export const Stimulus: React.FC<{ stimulus: StimulusContent; className?: string }> = ({
+  stimulus,
+  className = "",
+}) => (
+  <section aria-label={stimulus.title} className={`space-y-4 ${className}`}>
+    <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500">
+      {stimulus.title}
+    </h2>
+    {stimulus.passage && (
+      <p className="text-gray-900 whitespace-pre-line leading-relaxed">{stimulus.passage}</p>
+    )}
+    {stimulus.table && <TableView table={stimulus.table} />}
+    {stimulus.chart && <ChartView chart={stimulus.chart} />}
+  </section>
+);
@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { z } from "zod";
+import { issuesToFieldErrors } from "./api-errors";
+
+type FormValues = Record<string, string>;
+
+type FieldProps = {
+  name: string;
+  value: string;
+  error?: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  onBlur: () => void;
+};
+
+// Form state validated by the same zod schema the server uses, so client and
+// server report identical messages. `register(name)` returns props that can be
+// spread onto @repo/ui Input and PasswordInput.
+export function useZodForm<TSchema extends z.ZodType<unknown, FormValues>>(
+  schema: TSchema,
+  initialValues: z.input<TSchema>
+) {
+  const [values, setValues] = useState<FormValues>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+
+  const validate = useCallback(
+    (nextValues: FormValues) => {
+      const result = schema.safeParse(nextValues);
+      return result.success ? {} : issuesToFieldErrors(result.error.issues);
+    },
+    [schema]
+  );
+
+  // Re-checks one field, leaving errors on other fields untouched
+  const validateField = useCallback(
+    (name: string, nextValues: FormValues) => {
+      const message = validate(nextValues)[name];
+      setErrors((prev) => {
+        const next = { ...prev };
+        if (message) next[name] = message;
+        else delete next[name];
+        return next;
+      });
+    },
+    [validate]
+  );
+
+  const register = (name: keyof z.input<TSchema> & string): FieldProps => ({
+    name,
+    value: values[name] ?? "",
+    error: errors[name],
+    onChange: (e) => {
+      const nextValues = { ...values, [name]: e.target.value };
+      setValues(nextValues);
+      if (touched[name] || errors[name]) validateField(name, nextValues);
+    },
+    onBlur: () => {
+      setTouched((prev) => ({ ...prev, [name]: true }));
+      if (values[name]) validateField(name, values);
+    },
+  });
+
+  // Validates everything before calling `onValid` with the parsed data.
+  // `onValid` may return field errors from the server to display.
+  const handleSubmit =
+    (onValid: (data: z.output<TSchema>) => Promise<Record<string, string> | void>) =>
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+
+      const result = schema.safeParse(values);
+
+      if (!result.success) {
+        setErrors(issuesToFieldErrors(result.error.issues));
+        setTouched(Object.fromEntries(Object.keys(values).map((key) => [key, true])));
+        return;
+      }
+
+      setErrors({});
+      const serverErrors = await onValid(result.data);
+      if (serverErrors) setErrors(serverErrors);
+    };
+
+  return { values, errors, register, handleSubmit, setErrors };
+}
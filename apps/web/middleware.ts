@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { REFRESH_COOKIE } from "./lib/session";
+
+// Pages that need a signed-in user
+const PROTECTED_PATHS = ["/tests", "/results", "/review", "/dashboard"];
+
+const AUTH_PATHS = ["/sign-in", "/sign-up"];
+
+const matches = (pathname: string, paths: string[]) =>
+  paths.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const hasSession = request.cookies.has(REFRESH_COOKIE);
+
+  if (!hasSession && matches(pathname, PROTECTED_PATHS)) {
+    const url = new URL("/sign-in", request.url);
+    url.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(url);
+  }
+
+  if (hasSession && matches(pathname, AUTH_PATHS)) {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico).*)"],
+};
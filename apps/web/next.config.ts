@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Shared zod schemas and the API client are consumed as TypeScript source
+  transpilePackages: ["@repo/api-client", "@repo/common"],
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import {
+  contracts,
+  ErrorResponseSchema,
+  type ContractGroup,
+  type Contracts,
+  type RouteContract,
+} from "@repo/common/contracts";
+
+type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+
+// Thrown for every non-2xx response, carrying the server's error envelope
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ErrorResponse
+  ) {
+    super(body.message);
+    this.name = "ApiError";
+  }
+
+  get code() {
+    return this.body.code;
+  }
+}
+
+type InputField<C extends RouteContract, K extends "params" | "query" | "body"> =
+  C[K] extends z.ZodType ? { [P in K]: z.input<C[K]> } : { [P in K]?: never };
+
+export type RouteInput<C extends RouteContract> = InputField<C, "params"> &
+  InputField<C, "query"> &
+  InputField<C, "body">;
+
+export type RouteOutput<C extends RouteContract> = z.output<C["response"]>;
+
+type RouteCall<C extends RouteContract> = {} extends RouteInput<C>
+  ? (input?: RouteInput<C>) => Promise<RouteOutput<C>>
+  : (input: RouteInput<C>) => Promise<RouteOutput<C>>;
+
+type GroupClient<G extends ContractGroup> = {
+  [R in keyof G["routes"]]: RouteCall<G["routes"][R]>;
+};
+
+export type ApiClient = {
+  [G in keyof Contracts]: GroupClient<Contracts[G]>;
+};
+
+export type ApiClientOptions = {
+  baseUrl: string;
+  // Called before every route that needs auth; returning null sends the
+  // request without an Authorization header.
+  getAccessToken?: () => Promise<string | null> | string | null;
+  fetch?: typeof fetch;
+};
+
+const buildPath = (path: string, params: Record<string, unknown> = {}) =>
+  path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String(params[name])));
+
+const buildQuery = (query: Record<string, unknown> = {}) => {
+  const search = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value));
+    }
+  }
+
+  const queryString = search.toString();
+  return queryString ? `?${queryString}` : "";
+};
+
+const toErrorResponse = (status: number, data: unknown): ErrorResponse => {
+  const parsedData = ErrorResponseSchema.safeParse(data);
+
+  if (parsedData.success) {
+    return parsedData.data;
+  }
+
+  // Not from the API itself, e.g. a proxy error page
+  return {
+    code: status >= 500 ? "INTERNAL_SERVER_ERROR" : "BAD_REQUEST",
+    message: `Request failed with status ${status}`,
+  };
+};
+
+export const createApiClient = ({
+  baseUrl,
+  getAccessToken,
+  fetch: fetchImpl = fetch,
+}: ApiClientOptions): ApiClient => {
+  const call = async (
+    group: ContractGroup,
+    route: RouteContract,
+    input: { params?: unknown; query?: unknown; body?: unknown } = {}
+  ) => {
+    const headers: Record<string, string> = {};
+
+    if (input.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    if (route.auth) {
+      const token = await getAccessToken?.();
+
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+    }
+
+    const path = group.prefix + (route.path === "/" ? "" : route.path);
+    const url =
+      baseUrl.replace(/\/$/, "") +
+      buildPath(path, input.params as Record<string, unknown>) +
+      buildQuery(input.query as Record<string, unknown>);
+
+    const response = await fetchImpl(url, {
+      method: route.method,
+      headers,
+      body: input.body === undefined ? undefined : JSON.stringify(input.body),
+    });
+
+    // Failed downloads still answer with the JSON error envelope
+    if (route.fileTypes && response.ok) {
+      return route.response.parse(await response.blob());
+    }
+
+    const data = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      throw new ApiError(response.status, toErrorResponse(response.status, data));
+    }
+
+    return route.response.parse(data);
+  };
+
+  return Object.fromEntries(
+    Object.entries(contracts).map(([groupName, group]: [string, ContractGroup]) => [
+      groupName,
+      Object.fromEntries(
+        Object.entries(group.routes).map(([routeName, route]) => [
+          routeName,
+          (input?: Parameters<typeof call>[2]) => call(group, route, input),
+        ])
+      ),
+    ])
+  ) as ApiClient;
+};
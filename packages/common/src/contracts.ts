@@ -0,0 +1,835 @@
+import { z } from "zod";
+import {
+  AnalyticsTrendQuerySchema,
+  AnswerKeySchema,
+  CreateQuestionGroupSchema,
+  CreateQuestionSchema,
+  CreateScoringSchemeSchema,
+  CreateTestSchema,
+  DifficultySchema,
+  ExportQuestionsQuerySchema,
+  FlagQuestionSchema,
+  ForgotPasswordSchema,
+  ImportQuestionsSchema,
+  QuestionEventsSchema,
+  LeaderboardQuerySchema,
+  ListQuestionsQuerySchema,
+  QuestionOptionSchema,
+  QuestionResponseSchema,
+  QuestionTypeSchema,
+  RefreshTokenSchema,
+  ResetPasswordSchema,
+  ScoringRulesSchema,
+  ReviewAnswerSchema,
+  ReviewQueueQuerySchema,
+  SignInSchema,
+  SignUpSchema,
+  StimulusChartSchema,
+  StimulusTableSchema,
+  SubmitAnswerSchema,
+  TestModeSchema,
+  TopicModeSchema,
+  TopicSchema,
+  UpdateQuestionGroupSchema,
+  UpdateQuestionSchema,
+  UpdateScoringSchemeSchema,
+  VerifyEmailSchema,
+  WeakestTopicsQuerySchema,
+} from "./types";
+
+// Route contracts shared by the HTTP server, which registers its handlers
+// against them, and the typed API client used by the web app.
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RouteContract = {
+  method: HttpMethod;
+  // Relative to the group prefix, with Express style `:param` segments
+  path: string;
+  summary: string;
+  // Whether the route needs a bearer access token
+  auth: boolean;
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  // Media types of a file download; the response is JSON when omitted
+  fileTypes?: string[];
+  response: z.ZodType;
+};
+
+export type ContractGroup = {
+  prefix: string;
+  routes: Record<string, RouteContract>;
+};
+
+const defineRoute = <T extends RouteContract>(route: T) => route;
+
+// Dates are Date objects on the server and ISO strings on the wire
+const DateSchema = z
+  .union([z.date(), z.iso.datetime()])
+  .transform((val) => new Date(val))
+  .meta({ type: "string", format: "date-time" });
+
+const IdParamSchema = z.coerce.number().int().positive();
+
+// A downloaded file, read by the client as a Blob
+const FileSchema = z.instanceof(Blob).meta({ type: "string", format: "binary" });
+
+export const MessageResponseSchema = z.object({
+  message: z.string(),
+});
+
+// Stable, machine readable reason for a failed request. Clients should branch
+// on these rather than on `message`, which is meant for people.
+export const ErrorCodeSchema = z.enum([
+  "BAD_REQUEST",
+  "VALIDATION_FAILED",
+  "INVALID_OR_EXPIRED_TOKEN",
+  "UNAUTHENTICATED",
+  "ACCESS_TOKEN_EXPIRED",
+  "SESSION_REVOKED",
+  "INVALID_CREDENTIALS",
+  "INVALID_REFRESH_TOKEN",
+  "REFRESH_TOKEN_REUSED",
+  "FORBIDDEN",
+  "EMAIL_NOT_VERIFIED",
+  "NOT_FOUND",
+  "CONFLICT",
+  "EMAIL_ALREADY_REGISTERED",
+  "EMAIL_ALREADY_VERIFIED",
+  "TEST_ALREADY_SUBMITTED",
+  "TEST_TIME_EXPIRED",
+  "TEST_NOT_SUBMITTED",
+  "PAYLOAD_TOO_LARGE",
+  "RATE_LIMITED",
+  "ACCOUNT_LOCKED",
+  "INTERNAL_SERVER_ERROR",
+]);
+
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+
+export const ErrorIssueSchema = z.object({
+  path: z.array(z.union([z.string(), z.number()])),
+  message: z.string(),
+});
+
+export type ErrorIssue = z.infer<typeof ErrorIssueSchema>;
+
+// Body of every non-2xx response. `issues` lists the invalid fields of a
+// VALIDATION_FAILED error; `retryAfterSeconds` accompanies RATE_LIMITED and
+// ACCOUNT_LOCKED and matches the Retry-After header.
+export const ErrorResponseSchema = z.object({
+  code: ErrorCodeSchema,
+  message: z.string(),
+  issues: z.array(ErrorIssueSchema).optional(),
+  retryAfterSeconds: z.number().optional(),
+});
+
+export const UserSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: z.enum(["USER", "ADMIN"]),
+  emailVerified: z.boolean(),
+});
+
+export const AuthTokensResponseSchema = MessageResponseSchema.extend({
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+// What a question group shows alongside its questions
+export const StimulusSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  passage: z.string().nullable(),
+  table: StimulusTableSchema.nullable(),
+  chart: StimulusChartSchema.nullable(),
+});
+
+export const TestQuestionViewSchema = z.object({
+  id: z.number(),
+  questionId: z.number(),
+  // One of the test's `groups`; a group's questions are consecutive
+  groupId: z.number().nullable(),
+  type: QuestionTypeSchema,
+  text: z.string(),
+  options: z.array(QuestionOptionSchema),
+  difficulty: DifficultySchema,
+  topic: TopicSchema,
+  userAnswer: QuestionResponseSchema.nullable(),
+  guessed: z.boolean(),
+  flagged: z.boolean(),
+  // Only present once the test has been submitted
+  answer: AnswerKeySchema.optional(),
+  isCorrect: z.boolean().nullable().optional(),
+  // Share of the marks the answer earned, from 0 to 1
+  credit: z.number().nullable().optional(),
+  explanation: z.string().nullable().optional(),
+});
+
+// Ability on the IRT logit scale (0 is an average test taker) with its 95%
+// confidence interval
+export const AbilitySchema = z.object({
+  estimate: z.number(),
+  standardError: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+});
+
+const MarksSchema = z.object({
+  marks: z.number(),
+  maxMarks: z.number(),
+  correct: z.number(),
+  // Answers that earned part of the marks under partial credit
+  partial: z.number(),
+  wrong: z.number(),
+  unattempted: z.number(),
+});
+
+// How the marks of a submitted test add up under its scoring rules. `passed`
+// is null when the rules set no cut-off.
+export const ScoreBreakdownSchema = MarksSchema.extend({
+  passed: z.boolean().nullable(),
+  byTopic: z.array(
+    MarksSchema.extend({
+      topic: TopicSchema,
+      cutoff: z.number().nullable(),
+      passed: z.boolean().nullable(),
+    })
+  ),
+  byDifficulty: z.array(MarksSchema.extend({ difficulty: DifficultySchema })),
+});
+
+export const TestSummarySchema = z.object({
+  id: z.number(),
+  mode: TestModeSchema,
+  topic: TopicModeSchema,
+  subject: TopicSchema.nullable(),
+  score: z.number().nullable(),
+  timeLimit: z.number().nullable(),
+  startedAt: DateSchema,
+  endsAt: DateSchema.nullable(),
+  remainingSeconds: z.number().nullable(),
+  createdAt: DateSchema,
+  submittedAt: DateSchema.nullable(),
+  // Planned length; adaptive tests only list the questions served so far
+  questionCount: z.number(),
+  // Only present once the test has been submitted
+  ability: AbilitySchema.nullable(),
+  scoringRules: ScoringRulesSchema,
+  // Only present once the test has been submitted
+  marks: z.number().nullable(),
+  scoreBreakdown: ScoreBreakdownSchema.nullable(),
+});
+
+export const TestViewSchema = TestSummarySchema.extend({
+  questions: z.array(TestQuestionViewSchema),
+  groups: z.array(StimulusSchema),
+});
+
+const ResultCountsSchema = z.object({
+  questions: z.number(),
+  correct: z.number(),
+  wrong: z.number(),
+  skipped: z.number(),
+});
+
+export const TestResultsSchema = z.object({
+  test: TestSummarySchema,
+  totals: ResultCountsSchema.extend({
+    durationSeconds: z.number(),
+    answerChanges: z.number(),
+  }),
+  byTopic: z.array(
+    ResultCountsSchema.extend({
+      topic: TopicSchema,
+      timeSpentSeconds: z.number().nullable(),
+    })
+  ),
+  questions: z.array(
+    TestQuestionViewSchema.required({ answer: true, explanation: true }).extend({
+      isCorrect: z.boolean(),
+      credit: z.number(),
+      skipped: z.boolean(),
+      // Timing is null when the client did not report question views
+      firstViewedAt: DateSchema.nullable(),
+      timeSpentSeconds: z.number().nullable(),
+      answerChanges: z.number(),
+    })
+  ),
+  groups: z.array(StimulusSchema),
+});
+
+export const TestTimeSchema = z.object({
+  serverTime: DateSchema,
+  startedAt: DateSchema,
+  endsAt: DateSchema.nullable(),
+  remainingSeconds: z.number().nullable(),
+  submittedAt: DateSchema.nullable(),
+});
+
+export const QuestionSchema = z.object({
+  id: z.number(),
+  type: QuestionTypeSchema,
+  text: z.string(),
+  options: z.array(QuestionOptionSchema),
+  answer: AnswerKeySchema,
+  difficulty: DifficultySchema,
+  topic: TopicSchema,
+  tags: z.array(z.string()),
+  explanation: z.string().nullable(),
+  groupId: z.number().nullable(),
+  groupPosition: z.number(),
+  irtDifficulty: z.number().nullable(),
+  irtDiscrimination: z.number().nullable(),
+  irtResponses: z.number(),
+  irtCalibratedAt: DateSchema.nullable(),
+  createdAt: DateSchema,
+  updatedAt: DateSchema,
+  deletedAt: DateSchema.nullable(),
+});
+
+export const ImportReportSchema = z.object({
+  dryRun: z.boolean(),
+  committed: z.boolean(),
+  total: z.number(),
+  valid: z.number(),
+  imported: z.number(),
+  errors: z.array(z.object({ row: z.number(), errors: z.array(z.string()) })),
+  duplicates: z.array(
+    z.object({
+      row: z.number(),
+      text: z.string(),
+      questionId: z.number().optional(),
+      duplicateOfRow: z.number().optional(),
+    })
+  ),
+});
+
+export const authContract = {
+  prefix: "/api/v1",
+  routes: {
+    signUp: defineRoute({
+      method: "POST",
+      path: "/sign-up",
+      summary: "Create an account",
+      auth: false,
+      body: SignUpSchema,
+      response: AuthTokensResponseSchema.extend({
+        userId: z.number(),
+        emailVerified: z.boolean(),
+      }),
+    }),
+    signIn: defineRoute({
+      method: "POST",
+      path: "/sign-in",
+      summary: "Sign in with email and password",
+      auth: false,
+      body: SignInSchema,
+      response: AuthTokensResponseSchema.extend({
+        emailVerified: z.boolean(),
+      }),
+    }),
+    refresh: defineRoute({
+      method: "POST",
+      path: "/refresh",
+      summary: "Exchange a refresh token for a new token pair",
+      auth: false,
+      body: RefreshTokenSchema,
+      response: AuthTokensResponseSchema,
+    }),
+    logout: defineRoute({
+      method: "POST",
+      path: "/logout",
+      summary: "Revoke the current session",
+      auth: true,
+      response: MessageResponseSchema,
+    }),
+    me: defineRoute({
+      method: "GET",
+      path: "/me",
+      summary: "Get the signed-in user",
+      auth: true,
+      response: z.object({ user: UserSchema }),
+    }),
+    forgotPassword: defineRoute({
+      method: "POST",
+      path: "/forgot-password",
+      summary: "Email a password reset link",
+      auth: false,
+      body: ForgotPasswordSchema,
+      response: MessageResponseSchema,
+    }),
+    resetPassword: defineRoute({
+      method: "POST",
+      path: "/reset-password",
+      summary: "Set a new password with a reset token",
+      auth: false,
+      body: ResetPasswordSchema,
+      response: MessageResponseSchema,
+    }),
+    verifyEmail: defineRoute({
+      method: "POST",
+      path: "/verify-email",
+      summary: "Verify an email address",
+      auth: false,
+      body: VerifyEmailSchema,
+      response: MessageResponseSchema,
+    }),
+    resendVerification: defineRoute({
+      method: "POST",
+      path: "/resend-verification",
+      summary: "Send a new verification email",
+      auth: true,
+      response: MessageResponseSchema,
+    }),
+  },
+} satisfies ContractGroup;
+
+const TestParamsSchema = z.object({
+  testId: IdParamSchema,
+});
+
+export const testContract = {
+  prefix: "/api/v1/tests",
+  routes: {
+    create: defineRoute({
+      method: "POST",
+      path: "/",
+      summary: "Start a new test",
+      auth: true,
+      body: CreateTestSchema,
+      response: MessageResponseSchema.extend({ test: TestViewSchema }),
+    }),
+    get: defineRoute({
+      method: "GET",
+      path: "/:testId",
+      summary: "Get a test with its questions",
+      auth: true,
+      params: TestParamsSchema,
+      response: z.object({ test: TestViewSchema }),
+    }),
+    time: defineRoute({
+      method: "GET",
+      path: "/:testId/time",
+      summary: "Get the remaining time of a test",
+      auth: true,
+      params: TestParamsSchema,
+      response: TestTimeSchema,
+    }),
+    answer: defineRoute({
+      method: "PUT",
+      path: "/:testId/questions/:testQuestionId/answer",
+      summary: "Save the answer to a test question",
+      auth: true,
+      params: TestParamsSchema.extend({ testQuestionId: IdParamSchema }),
+      body: SubmitAnswerSchema,
+      response: MessageResponseSchema,
+    }),
+    events: defineRoute({
+      method: "POST",
+      path: "/:testId/events",
+      summary: "Report when questions are viewed and how long they stay on screen",
+      auth: true,
+      params: TestParamsSchema,
+      body: QuestionEventsSchema,
+      response: MessageResponseSchema,
+    }),
+    flag: defineRoute({
+      method: "PUT",
+      path: "/:testId/questions/:testQuestionId/flag",
+      summary: "Mark or unmark a test question for review",
+      auth: true,
+      params: TestParamsSchema.extend({ testQuestionId: IdParamSchema }),
+      body: FlagQuestionSchema,
+      response: MessageResponseSchema,
+    }),
+    results: defineRoute({
+      method: "GET",
+      path: "/:testId/results",
+      summary: "Get the answers, explanations and topic breakdown of a submitted test",
+      auth: true,
+      params: TestParamsSchema,
+      response: TestResultsSchema,
+    }),
+    submit: defineRoute({
+      method: "POST",
+      path: "/:testId/submit",
+      summary: "Submit a test for scoring",
+      auth: true,
+      params: TestParamsSchema,
+      response: MessageResponseSchema.extend({ test: TestViewSchema }),
+    }),
+  },
+} satisfies ContractGroup;
+
+const QuestionParamsSchema = z.object({
+  questionId: IdParamSchema,
+});
+
+export const questionContract = {
+  prefix: "/api/v1/questions",
+  routes: {
+    create: defineRoute({
+      method: "POST",
+      path: "/",
+      summary: "Create a question",
+      auth: true,
+      body: CreateQuestionSchema,
+      response: MessageResponseSchema.extend({ question: QuestionSchema }),
+    }),
+    import: defineRoute({
+      method: "POST",
+      path: "/import",
+      summary: "Import questions from a CSV, JSON or QTI file",
+      auth: true,
+      body: ImportQuestionsSchema,
+      response: MessageResponseSchema.extend({ report: ImportReportSchema }),
+    }),
+    list: defineRoute({
+      method: "GET",
+      path: "/",
+      summary: "List questions",
+      auth: true,
+      query: ListQuestionsQuerySchema,
+      response: z.object({
+        questions: z.array(QuestionSchema),
+        pagination: z.object({
+          page: z.number(),
+          pageSize: z.number(),
+          total: z.number(),
+          totalPages: z.number(),
+        }),
+      }),
+    }),
+    export: defineRoute({
+      method: "GET",
+      path: "/export",
+      summary: "Export questions as a JSON, CSV or QTI file",
+      auth: true,
+      query: ExportQuestionsQuerySchema,
+      fileTypes: ["application/json", "text/csv", "application/zip"],
+      response: FileSchema,
+    }),
+    get: defineRoute({
+      method: "GET",
+      path: "/:questionId",
+      summary: "Get a question",
+      auth: true,
+      params: QuestionParamsSchema,
+      response: z.object({ question: QuestionSchema }),
+    }),
+    update: defineRoute({
+      method: "PATCH",
+      path: "/:questionId",
+      summary: "Update a question",
+      auth: true,
+      params: QuestionParamsSchema,
+      body: UpdateQuestionSchema,
+      response: MessageResponseSchema.extend({ question: QuestionSchema }),
+    }),
+    delete: defineRoute({
+      method: "DELETE",
+      path: "/:questionId",
+      summary: "Soft-delete a question",
+      auth: true,
+      params: QuestionParamsSchema,
+      response: MessageResponseSchema,
+    }),
+  },
+} satisfies ContractGroup;
+
+export const QuestionGroupSchema = StimulusSchema.extend({
+  // Questions in the group that are not deleted
+  questionCount: z.number(),
+  createdAt: DateSchema,
+  updatedAt: DateSchema,
+  deletedAt: DateSchema.nullable(),
+});
+
+const QuestionGroupParamsSchema = z.object({
+  questionGroupId: IdParamSchema,
+});
+
+export const questionGroupContract = {
+  prefix: "/api/v1/question-groups",
+  routes: {
+    create: defineRoute({
+      method: "POST",
+      path: "/",
+      summary: "Create a question group with a passage, table or chart",
+      auth: true,
+      body: CreateQuestionGroupSchema,
+      response: MessageResponseSchema.extend({ questionGroup: QuestionGroupSchema }),
+    }),
+    list: defineRoute({
+      method: "GET",
+      path: "/",
+      summary: "List question groups",
+      auth: true,
+      response: z.object({ questionGroups: z.array(QuestionGroupSchema) }),
+    }),
+    get: defineRoute({
+      method: "GET",
+      path: "/:questionGroupId",
+      summary: "Get a question group with its questions in order",
+      auth: true,
+      params: QuestionGroupParamsSchema,
+      response: z.object({
+        questionGroup: QuestionGroupSchema,
+        questions: z.array(QuestionSchema),
+      }),
+    }),
+    update: defineRoute({
+      method: "PATCH",
+      path: "/:questionGroupId",
+      summary: "Update a question group",
+      auth: true,
+      params: QuestionGroupParamsSchema,
+      body: UpdateQuestionGroupSchema,
+      response: MessageResponseSchema.extend({ questionGroup: QuestionGroupSchema }),
+    }),
+    delete: defineRoute({
+      method: "DELETE",
+      path: "/:questionGroupId",
+      summary: "Soft-delete a question group that no longer has questions",
+      auth: true,
+      params: QuestionGroupParamsSchema,
+      response: MessageResponseSchema,
+    }),
+  },
+} satisfies ContractGroup;
+
+export const PerformanceStatsSchema = z.object({
+  questions: z.number(),
+  answered: z.number(),
+  correct: z.number(),
+  // correct / questions, between 0 and 1
+  accuracy: z.number().nullable(),
+  averageSeconds: z.number().nullable(),
+});
+
+const TopicStatsSchema = PerformanceStatsSchema.extend({ topic: TopicSchema });
+
+// Covers questions with timing reported by the test page
+export const PacingStatsSchema = z.object({
+  questions: z.number(),
+  averageSeconds: z.number().nullable(),
+  averageSecondsCorrect: z.number().nullable(),
+  averageSecondsWrong: z.number().nullable(),
+  averageAnswerChanges: z.number().nullable(),
+  // Questions whose answer was changed at least once
+  changedAnswers: z.number(),
+});
+
+export const analyticsContract = {
+  prefix: "/api/v1/analytics",
+  routes: {
+    summary: defineRoute({
+      method: "GET",
+      path: "/summary",
+      summary: "Accuracy, attempts and average time overall, per topic and per difficulty",
+      auth: true,
+      response: z.object({
+        overall: PerformanceStatsSchema,
+        byTopic: z.array(TopicStatsSchema),
+        byDifficulty: z.array(PerformanceStatsSchema.extend({ difficulty: DifficultySchema })),
+      }),
+    }),
+    trend: defineRoute({
+      method: "GET",
+      path: "/trend",
+      summary: "Weekly performance over recent weeks",
+      auth: true,
+      query: AnalyticsTrendQuerySchema,
+      response: z.object({
+        weeks: z.array(
+          PerformanceStatsSchema.extend({
+            weekStart: DateSchema,
+            tests: z.number(),
+          })
+        ),
+      }),
+    }),
+    weakestTopics: defineRoute({
+      method: "GET",
+      path: "/weakest-topics",
+      summary: "Topics with the lowest accuracy",
+      auth: true,
+      query: WeakestTopicsQuerySchema,
+      response: z.object({
+        topics: z.array(TopicStatsSchema),
+      }),
+    }),
+    pacing: defineRoute({
+      method: "GET",
+      path: "/pacing",
+      summary: "Time per question and answer changes, overall, per topic and per difficulty",
+      auth: true,
+      response: z.object({
+        overall: PacingStatsSchema,
+        byTopic: z.array(PacingStatsSchema.extend({ topic: TopicSchema })),
+        byDifficulty: z.array(PacingStatsSchema.extend({ difficulty: DifficultySchema })),
+      }),
+    }),
+  },
+} satisfies ContractGroup;
+
+const LeaderboardEntrySchema = z.object({
+  rank: z.number(),
+  userId: z.number(),
+  name: z.string(),
+  tests: z.number(),
+  questions: z.number(),
+  correct: z.number(),
+  // Total marks under each test's scoring rules; the score board ranks on it
+  marks: z.number(),
+  accuracy: z.number(),
+});
+
+export const leaderboardContract = {
+  prefix: "/api/v1/leaderboards",
+  routes: {
+    get: defineRoute({
+      method: "GET",
+      path: "/",
+      summary: "Top users for a period, topic and mode, with the caller's own rank",
+      auth: true,
+      query: LeaderboardQuerySchema,
+      response: z.object({
+        period: LeaderboardQuerySchema.shape.period.unwrap(),
+        periodStart: DateSchema,
+        total: z.number(),
+        entries: z.array(LeaderboardEntrySchema),
+        // Null when the caller has no qualifying results on this board
+        me: LeaderboardEntrySchema.extend({
+          // Percentage of the other ranked users placed below the caller
+          percentile: z.number(),
+        }).nullable(),
+      }),
+    }),
+  },
+} satisfies ContractGroup;
+
+const ReviewScheduleSchema = z.object({
+  id: z.number(),
+  easeFactor: z.number(),
+  // Days until the next review
+  interval: z.number(),
+  repetitions: z.number(),
+  lapses: z.number(),
+  dueAt: DateSchema,
+  lastReviewedAt: DateSchema.nullable(),
+});
+
+// The answer key is withheld until the item is reviewed
+const ReviewItemSchema = ReviewScheduleSchema.extend({
+  question: z.object({
+    id: z.number(),
+    type: QuestionTypeSchema,
+    text: z.string(),
+    options: z.array(QuestionOptionSchema),
+    difficulty: DifficultySchema,
+    topic: TopicSchema,
+    // The passage or data set the question is about
+    group: StimulusSchema.nullable(),
+  }),
+});
+
+export const reviewContract = {
+  prefix: "/api/v1/reviews",
+  routes: {
+    due: defineRoute({
+      method: "GET",
+      path: "/due",
+      summary: "Questions due for review, most overdue first",
+      auth: true,
+      query: ReviewQueueQuerySchema,
+      response: z.object({
+        // All due items, of which at most `limit` are returned
+        due: z.number(),
+        total: z.number(),
+        items: z.array(ReviewItemSchema),
+      }),
+    }),
+    answer: defineRoute({
+      method: "POST",
+      path: "/:reviewItemId",
+      summary: "Record a review answer and reschedule the question",
+      auth: true,
+      params: z.object({ reviewItemId: IdParamSchema }),
+      body: ReviewAnswerSchema,
+      response: z.object({
+        isCorrect: z.boolean(),
+        credit: z.number(),
+        answer: AnswerKeySchema,
+        item: ReviewScheduleSchema,
+      }),
+    }),
+  },
+} satisfies ContractGroup;
+
+export const ScoringSchemeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  rules: ScoringRulesSchema,
+  createdAt: DateSchema,
+  updatedAt: DateSchema,
+});
+
+const ScoringSchemeParamsSchema = z.object({
+  scoringSchemeId: IdParamSchema,
+});
+
+export const scoringSchemeContract = {
+  prefix: "/api/v1/scoring-schemes",
+  routes: {
+    list: defineRoute({
+      method: "GET",
+      path: "/",
+      summary: "List the scoring schemes tests can be marked with",
+      auth: true,
+      response: z.object({ scoringSchemes: z.array(ScoringSchemeSchema) }),
+    }),
+    create: defineRoute({
+      method: "POST",
+      path: "/",
+      summary: "Create a scoring scheme",
+      auth: true,
+      body: CreateScoringSchemeSchema,
+      response: MessageResponseSchema.extend({ scoringScheme: ScoringSchemeSchema }),
+    }),
+    update: defineRoute({
+      method: "PATCH",
+      path: "/:scoringSchemeId",
+      summary: "Update a scoring scheme; tests already started keep the old rules",
+      auth: true,
+      params: ScoringSchemeParamsSchema,
+      body: UpdateScoringSchemeSchema,
+      response: MessageResponseSchema.extend({ scoringScheme: ScoringSchemeSchema }),
+    }),
+    delete: defineRoute({
+      method: "DELETE",
+      path: "/:scoringSchemeId",
+      summary: "Delete a scoring scheme",
+      auth: true,
+      params: ScoringSchemeParamsSchema,
+      response: MessageResponseSchema,
+    }),
+  },
+} satisfies ContractGroup;
+
+export const contracts = {
+  auth: authContract,
+  tests: testContract,
+  questions: questionContract,
+  questionGroups: questionGroupContract,
+  analytics: analyticsContract,
+  leaderboards: leaderboardContract,
+  reviews: reviewContract,
+  scoringSchemes: scoringSchemeContract,
+};
+
+export type Contracts = typeof contracts;
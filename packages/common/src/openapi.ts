@@ -0,0 +1,129 @@
+import { z } from "zod";
+import {
+  contracts,
+  ErrorResponseSchema,
+  type ContractGroup,
+  type RouteContract,
+} from "./contracts";
+
+// Builds an OpenAPI 3.1 document from the route contracts, so every route
+// registered through a contract shows up here without further changes.
+
+type JsonSchema = Record<string, unknown>;
+
+type OpenApiInfo = {
+  title: string;
+  version: string;
+  description?: string;
+};
+
+const toSchema = (schema: z.ZodType, io: "input" | "output"): JsonSchema => {
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, {
+    target: "draft-2020-12",
+    unrepresentable: "any",
+    io,
+  });
+
+  // OpenAPI 3.1 schemas are JSON Schema 2020-12 already, so the dialect
+  // marker is redundant on every nested schema
+  delete jsonSchema.$schema;
+
+  return jsonSchema;
+};
+
+const toParameters = (schema: z.ZodType | undefined, location: "path" | "query") => {
+  if (!schema) {
+    return [];
+  }
+
+  const { properties = {}, required = [] } = toSchema(schema, "input") as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    schema: propertySchema,
+  }));
+};
+
+const jsonContent = (schema: z.ZodType, io: "input" | "output") => ({
+  "application/json": {
+    schema: toSchema(schema, io),
+  },
+});
+
+const fileContent = (schema: z.ZodType, fileTypes: string[]) =>
+  Object.fromEntries(fileTypes.map((type) => [type, { schema: toSchema(schema, "output") }]));
+
+const errorResponse = (description: string) => ({
+  description,
+  content: jsonContent(ErrorResponseSchema, "output"),
+});
+
+// Express `:param` segments become OpenAPI `{param}` templates
+const toOpenApiPath = (group: ContractGroup, route: RouteContract) =>
+  (group.prefix + (route.path === "/" ? "" : route.path)).replace(/:(\w+)/g, "{$1}");
+
+const toOperation = (groupName: string, routeName: string, route: RouteContract) => {
+  const parameters = [...toParameters(route.params, "path"), ...toParameters(route.query, "query")];
+  const hasInput = parameters.length > 0 || route.body !== undefined;
+
+  return {
+    operationId: `${groupName}.${routeName}`,
+    summary: route.summary,
+    tags: [groupName],
+    ...(route.auth && { security: [{ bearerAuth: [] }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: jsonContent(route.body, "input"),
+      },
+    }),
+    responses: {
+      // Creating routes answer 201, everything else 200
+      "2XX": {
+        description: "Successful response",
+        content: route.fileTypes
+          ? fileContent(route.response, route.fileTypes)
+          : jsonContent(route.response, "output"),
+      },
+      ...(hasInput && { "400": errorResponse("VALIDATION_FAILED, with the invalid fields") }),
+      ...(route.auth && {
+        "401": errorResponse("UNAUTHENTICATED, ACCESS_TOKEN_EXPIRED or SESSION_REVOKED"),
+      }),
+      default: errorResponse("Any other failure, identified by `code`"),
+    },
+  };
+};
+
+export const buildOpenApiDocument = (info: OpenApiInfo) => {
+  const paths: Record<string, Record<string, ReturnType<typeof toOperation>>> = {};
+
+  for (const [groupName, group] of Object.entries(contracts) as [string, ContractGroup][]) {
+    for (const [routeName, route] of Object.entries(group.routes)) {
+      const path = toOpenApiPath(group, route);
+
+      paths[path] ??= {};
+      paths[path][route.method.toLowerCase()] = toOperation(groupName, routeName, route);
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+        },
+      },
+    },
+  };
+};
@@ -1,12 +1,21 @@
 import { z } from "zod";
 
+// Emails are stored and looked up in lower case, so an address matches the
+// same account however it is typed
+const EmailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .pipe(z.email())
+  .meta({ type: "string", format: "email" });
+
 export const SignUpSchema = z.object({
-  name: z.string(),
-  email: z.email(),
+  name: z.string().trim().min(1, "Name is required"),
+  email: EmailSchema,
   password: z
     .string()
     .min(8, "Password must be at least 8 characters")
-    .max(16, "Password must not exceed 20 characters")
+    .max(16, "Password must not exceed 16 characters")
     .refine((val) => /[A-Z]/.test(val), {
       message: "Password must contain at least one uppercase letter",
     })
@@ -22,11 +31,11 @@ export const SignUpSchema = z.object({
 });
 
 export const SignInSchema = z.object({
-  email: z.email(),
+  email: EmailSchema,
   password: z
     .string()
     .min(8, "Password must be at least 8 characters")
-    .max(16, "Password must not exceed 20 characters")
+    .max(16, "Password must not exceed 16 characters")
     .refine((val) => /[A-Z]/.test(val), {
       message: "Password must contain at least one uppercase letter",
     })
@@ -40,3 +49,406 @@ export const SignInSchema = z.object({
       message: "Password must contain at least one special character",
     }),
 });
+
+export const DifficultySchema = z.enum(["EASY", "MEDIUM", "HARD"]);
+
+export const TopicSchema = z.enum(["QUANTITATIVE", "LOGICAL", "VERBAL", "MIXED"]);
+
+// ADAPTIVE picks each question from the answers so far instead of by difficulty
+export const TestModeSchema = z.enum(["EASY", "MEDIUM", "HARD", "MIXED", "ADAPTIVE"]);
+
+export const TopicModeSchema = z.enum(["TOPICWISE", "MIXED"]);
+
+// Marks for each kind of answer, multiplied by the question's difficulty
+// weight. Negative marking is a negative `wrong` value.
+export const ScoringRulesSchema = z.object({
+  correct: z.number().min(0).default(1),
+  wrong: z.number().max(0, "Wrong answers cannot earn marks").default(0),
+  unattempted: z.number().max(0, "Unattempted questions cannot earn marks").default(0),
+  difficultyWeights: z
+    .object({
+      EASY: z.number().positive(),
+      MEDIUM: z.number().positive(),
+      HARD: z.number().positive(),
+    })
+    .default({ EASY: 1, MEDIUM: 1, HARD: 1 }),
+  // Minimum marks per topic; a test passes only if it clears every cut-off
+  sectionCutoffs: z.partialRecord(TopicSchema, z.number()).default({}),
+  // Minimum total marks, null for no overall cut-off
+  passMarks: z.number().nullable().default(null),
+  // Whether partly right multi-select and ordering answers earn that share of
+  // the marks; otherwise only fully right answers earn any
+  partialCredit: z.boolean().default(false),
+});
+
+export type ScoringRules = z.output<typeof ScoringRulesSchema>;
+
+// One mark per correct answer and nothing else, for tests without a scheme
+export const DEFAULT_SCORING_RULES: ScoringRules = ScoringRulesSchema.parse({});
+
+export const CreateScoringSchemeSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must not exceed 100 characters"),
+  description: z.string().trim().max(1000).nullish(),
+  rules: ScoringRulesSchema,
+});
+
+export const UpdateScoringSchemeSchema = CreateScoringSchemeSchema.partial();
+
+export const CreateTestSchema = z
+  .object({
+    mode: TestModeSchema,
+    topic: TopicModeSchema,
+    subject: TopicSchema.exclude(["MIXED"]).optional(),
+    questionCount: z.number().int().min(1).max(100).default(20),
+    timeLimit: z
+      .number()
+      .int()
+      .min(60, "Time limit must be at least 60 seconds")
+      .max(10800, "Time limit must not exceed 3 hours")
+      .optional(),
+    // Marks one per correct answer when omitted
+    scoringSchemeId: z.number().int().positive().optional(),
+  })
+  .refine((val) => val.topic !== "TOPICWISE" || val.subject !== undefined, {
+    message: "Subject is required for topic-wise tests",
+    path: ["subject"],
+  });
+
+export const QuestionOptionSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1, "Option id is required")
+    .max(32, "Option id must not exceed 32 characters"),
+  label: z.string().trim().min(1, "Option label is required"),
+  // Optional Markdown shown in place of the label, e.g. for formulas or images
+  content: z.string().optional(),
+});
+
+export const QuestionOptionsSchema = z
+  .array(QuestionOptionSchema)
+  .min(2, "A question needs at least 2 options")
+  .refine((val) => new Set(val.map((option) => option.id)).size === val.length, {
+    message: "Option ids must be unique",
+  });
+
+export type QuestionOption = z.infer<typeof QuestionOptionSchema>;
+
+export const QuestionTypeSchema = z.enum(["SINGLE_CHOICE", "MULTI_SELECT", "NUMERIC", "ORDERING"]);
+
+export type QuestionType = z.infer<typeof QuestionTypeSchema>;
+
+const OptionIdSchema = z.string().trim().min(1, "Answer must be an option id");
+
+const OptionIdListSchema = z
+  .array(OptionIdSchema)
+  .min(1, "Answer must list at least one option id")
+  .max(50, "Answer must not list more than 50 option ids")
+  .refine((val) => new Set(val).size === val.length, {
+    message: "Answer must not repeat an option id",
+  });
+
+// The correct value of a NUMERIC question; answers within `tolerance` of it
+// are right
+export const NumericAnswerKeySchema = z.object({
+  value: z.number(),
+  tolerance: z.number().min(0, "Tolerance must not be negative").default(0),
+});
+
+// Answer key of any question type: the correct option id (SINGLE_CHOICE),
+// the correct option ids (MULTI_SELECT), the option ids in their correct
+// order (ORDERING) or the correct value (NUMERIC)
+export const AnswerKeySchema = z.union([
+  OptionIdSchema,
+  OptionIdListSchema,
+  NumericAnswerKeySchema,
+]);
+
+export type AnswerKey = z.infer<typeof AnswerKeySchema>;
+
+// What a test taker answers: an option id (SINGLE_CHOICE), option ids
+// (MULTI_SELECT, and ORDERING in the chosen order) or a number (NUMERIC).
+// Whether it fits the question is checked when the answer is saved.
+export const QuestionResponseSchema = z.union([OptionIdSchema, OptionIdListSchema, z.number()]);
+
+export type QuestionResponse = z.infer<typeof QuestionResponseSchema>;
+
+export const SubmitAnswerSchema = z.object({
+  answer: QuestionResponseSchema,
+  // Guessed questions are queued for review even when the guess was right
+  guessed: z.boolean().optional(),
+});
+
+export const FlagQuestionSchema = z.object({
+  flagged: z.boolean(),
+});
+
+// Reported by the test page: VIEW when a question is shown, DWELL with the
+// time it stayed on screen once it is hidden again
+export const QuestionEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("VIEW"),
+    testQuestionId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("DWELL"),
+    testQuestionId: z.number().int().positive(),
+    durationMs: z.number().int().min(0).max(3 * 60 * 60 * 1000),
+  }),
+]);
+
+export const QuestionEventsSchema = z.object({
+  events: z.array(QuestionEventSchema).min(1).max(100),
+});
+
+// A data set shown as a table; every row has one cell per column
+export const StimulusTableSchema = z
+  .object({
+    caption: z.string().trim().max(500).nullish(),
+    columns: z
+      .array(z.string().trim().min(1, "Column heading is required"))
+      .min(1, "A table needs at least 1 column")
+      .max(20, "A table can have at most 20 columns"),
+    rows: z
+      .array(z.array(z.union([z.string(), z.number()])))
+      .min(1, "A table needs at least 1 row")
+      .max(100, "A table can have at most 100 rows"),
+  })
+  .refine((val) => val.rows.every((row) => row.length === val.columns.length), {
+    message: "Every row needs one cell per column",
+    path: ["rows"],
+  });
+
+export type StimulusTable = z.infer<typeof StimulusTableSchema>;
+
+// A data set shown as a chart, with one value per label in each series.
+// Pie charts show a single series.
+export const StimulusChartSchema = z
+  .object({
+    kind: z.enum(["BAR", "LINE", "PIE"]),
+    caption: z.string().trim().max(500).nullish(),
+    // Unit of the values, e.g. "₹ crore" or "%"
+    unit: z.string().trim().max(50).nullish(),
+    labels: z
+      .array(z.string().trim().min(1, "Label is required"))
+      .min(1, "A chart needs at least 1 label")
+      .max(50, "A chart can have at most 50 labels"),
+    series: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1, "Series name is required"),
+          values: z.array(z.number()),
+        })
+      )
+      .min(1, "A chart needs at least 1 series")
+      .max(10, "A chart can have at most 10 series"),
+  })
+  .refine((val) => val.series.every((series) => series.values.length === val.labels.length), {
+    message: "Every series needs one value per label",
+    path: ["series"],
+  })
+  .refine(
+    (val) =>
+      val.kind !== "PIE" ||
+      (val.series.length === 1 && val.series[0]!.values.every((value) => value >= 0)),
+    {
+      message: "A pie chart needs exactly 1 series of values that are not negative",
+      path: ["series"],
+    }
+  );
+
+export type StimulusChart = z.infer<typeof StimulusChartSchema>;
+
+const QuestionGroupFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(200, "Title must not exceed 200 characters"),
+  // Markdown
+  passage: z.string().trim().max(20000, "Passage must not exceed 20000 characters").nullish(),
+  table: StimulusTableSchema.nullish(),
+  chart: StimulusChartSchema.nullish(),
+});
+
+const hasStimulus = (val: z.infer<typeof QuestionGroupFieldsSchema>) =>
+  Boolean(val.passage || val.table || val.chart);
+
+export const CreateQuestionGroupSchema = QuestionGroupFieldsSchema.refine(hasStimulus, {
+  message: "A question group needs a passage, a table or a chart",
+  path: ["passage"],
+});
+
+// Checked as a whole once merged with the stored group
+export const UpdateQuestionGroupSchema = QuestionGroupFieldsSchema.partial();
+
+const QuestionFieldsSchema = z.object({
+  text: z.string().trim().min(1, "Question text is required"),
+  difficulty: DifficultySchema,
+  topic: TopicSchema,
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1, "Tag must not be empty"))
+    .max(20, "A question can have at most 20 tags")
+    .optional(),
+  // Markdown explaining the answer, shown once a test is submitted
+  explanation: z
+    .string()
+    .trim()
+    .max(10000, "Explanation must not exceed 10000 characters")
+    .nullish(),
+  // The passage or data set the question is about
+  groupId: z.number().int().positive().nullish(),
+  groupPosition: z.number().int().min(0).optional(),
+});
+
+const isOptionId = (options: QuestionOption[], id: string) =>
+  options.some((option) => option.id === id);
+
+// The answer key is checked against the options of its question type
+export const CreateQuestionSchema = z.discriminatedUnion("type", [
+  QuestionFieldsSchema.extend({
+    // Questions without a type are single choice
+    type: z.literal("SINGLE_CHOICE").optional(),
+    options: QuestionOptionsSchema,
+    answer: OptionIdSchema,
+  }).refine((val) => isOptionId(val.options, val.answer), {
+    message: "Answer must be the id of one of the options",
+    path: ["answer"],
+  }),
+  QuestionFieldsSchema.extend({
+    type: z.literal("MULTI_SELECT"),
+    options: QuestionOptionsSchema,
+    answer: OptionIdListSchema,
+  }).refine((val) => val.answer.every((id) => isOptionId(val.options, id)), {
+    message: "Answer must list ids of the options",
+    path: ["answer"],
+  }),
+  QuestionFieldsSchema.extend({
+    type: z.literal("NUMERIC"),
+    options: z.array(QuestionOptionSchema).max(0, "Numeric questions have no options").default([]),
+    answer: NumericAnswerKeySchema,
+  }),
+  QuestionFieldsSchema.extend({
+    type: z.literal("ORDERING"),
+    options: QuestionOptionsSchema,
+    answer: OptionIdListSchema,
+  })
+    .refine(
+      (val) =>
+        val.answer.length === val.options.length &&
+        val.answer.every((id) => isOptionId(val.options, id)),
+      {
+        message: "Answer must list every option id once, in the correct order",
+        path: ["answer"],
+      }
+    )
+    // Options are shown in the order given, which must not give the answer away
+    .refine((val) => val.answer.some((id, index) => val.options[index]?.id !== id), {
+      message: "Options must not already be in the correct order",
+      path: ["options"],
+    }),
+]);
+
+// Checked as a whole once merged with the stored question
+export const UpdateQuestionSchema = QuestionFieldsSchema.extend({
+  type: QuestionTypeSchema,
+  options: z.array(QuestionOptionSchema),
+  answer: AnswerKeySchema,
+}).partial();
+
+export const QuestionFilterSchema = z.object({
+  topic: TopicSchema.optional(),
+  difficulty: DifficultySchema.optional(),
+  tag: z.string().trim().toLowerCase().min(1).optional(),
+  groupId: z.coerce.number().int().positive().optional(),
+});
+
+export const ListQuestionsQuerySchema = QuestionFilterSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  includeDeleted: z
+    .enum(["true", "false"])
+    .transform((val) => val === "true")
+    .optional(),
+});
+
+export const QuestionColumnMappingSchema = z
+  .object({
+    text: z.string(),
+    type: z.string(),
+    options: z.string(),
+    answer: z.string(),
+    difficulty: z.string(),
+    topic: z.string(),
+    tags: z.string(),
+    explanation: z.string(),
+  })
+  .partial();
+
+export const ImportQuestionsSchema = z.object({
+  format: z.enum(["csv", "json", "qti"]),
+  // QTI content packages are zip files and must be sent base64 encoded
+  encoding: z.enum(["utf8", "base64"]).default("utf8"),
+  content: z.string().min(1, "File content is required"),
+  mapping: QuestionColumnMappingSchema.optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export const ExportQuestionsQuerySchema = QuestionFilterSchema.extend({
+  format: z.enum(["json", "csv", "qti"]).default("json"),
+});
+
+export const RefreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const ForgotPasswordSchema = z.object({
+  email: EmailSchema,
+});
+
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: SignUpSchema.shape.password,
+});
+
+export const VerifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+export const AnalyticsTrendQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(12),
+});
+
+export const WeakestTopicsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(10).default(3),
+  // Topics with fewer answered questions are too noisy to rank
+  minAnswered: z.coerce.number().int().min(1).default(5),
+});
+
+export const LeaderboardQuerySchema = z.object({
+  period: z.enum(["ALL_TIME", "MONTH", "WEEK"]).default("ALL_TIME"),
+  topic: TopicSchema.optional(),
+  mode: TestModeSchema.optional(),
+  // "score" ranks on marks under each test's scoring rules
+  sort: z.enum(["score", "accuracy"]).default("score"),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  // Only applies when sorting by accuracy
+  minQuestions: z.coerce.number().int().min(1).default(20),
+});
+
+export const ReviewQueueQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// How well the user recalled a question they answered correctly; a wrong
+// answer always counts as forgotten
+export const ReviewConfidenceSchema = z.enum(["GUESSED", "HARD", "GOOD", "EASY"]);
+
+export const ReviewAnswerSchema = z.object({
+  answer: QuestionResponseSchema,
+  confidence: ReviewConfidenceSchema.default("GOOD"),
+});
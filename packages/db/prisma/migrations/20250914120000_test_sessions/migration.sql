@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Test" ADD COLUMN     "subject" "public"."Topic",
+ADD COLUMN     "submittedAt" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."Test" ADD COLUMN     "endsAt" TIMESTAMP(3),
+ADD COLUMN     "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "timeLimit" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Test_submittedAt_endsAt_idx" ON "public"."Test"("submittedAt", "endsAt");
+
+-- Backfill start time for tests created before this migration
+UPDATE "public"."Test" SET "startedAt" = "createdAt";
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."Role" AS ENUM ('USER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "role" "public"."Role" NOT NULL DEFAULT 'USER';
+
+-- AlterTable
+ALTER TABLE "public"."Question" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Question_topic_difficulty_idx" ON "public"."Question"("topic", "difficulty");
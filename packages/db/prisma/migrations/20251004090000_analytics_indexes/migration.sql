@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Test_userId_submittedAt_idx" ON "public"."Test"("userId", "submittedAt");
+
+-- CreateIndex
+CREATE INDEX "TestQuestion_testId_idx" ON "public"."TestQuestion"("testId");
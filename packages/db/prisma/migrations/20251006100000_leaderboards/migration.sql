@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."LeaderboardPeriod" AS ENUM ('ALL_TIME', 'MONTH', 'WEEK');
+
+-- CreateTable
+CREATE TABLE "public"."LeaderboardEntry" (
+    "id" SERIAL NOT NULL,
+    "period" "public"."LeaderboardPeriod" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "topic" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "tests" INTEGER NOT NULL DEFAULT 0,
+    "questions" INTEGER NOT NULL DEFAULT 0,
+    "correct" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaderboardEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaderboardEntry_period_periodStart_topic_mode_userId_key" ON "public"."LeaderboardEntry"("period", "periodStart", "topic", "mode", "userId");
+
+-- CreateIndex
+CREATE INDEX "LeaderboardEntry_period_periodStart_topic_mode_correct_idx" ON "public"."LeaderboardEntry"("period", "periodStart", "topic", "mode", "correct");
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaderboardEntry" ADD CONSTRAINT "LeaderboardEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from tests submitted before this migration. Every combination of
+-- a topic (or ALL) and a mode (or ALL) gets its own row, like the server
+-- writes when it scores a test.
+WITH "answer" AS (
+    SELECT t."id" AS "testId", t."userId", t."submittedAt", t."mode"::text AS "mode",
+        q."topic"::text AS "topic", tq."isCorrect"
+    FROM "public"."Test" t
+    JOIN "public"."TestQuestion" tq ON tq."testId" = t."id"
+    JOIN "public"."Question" q ON q."id" = tq."questionId"
+    WHERE t."submittedAt" IS NOT NULL
+), "periodAnswer" AS (
+    SELECT a.*, p."period", p."periodStart"
+    FROM "answer" a
+    CROSS JOIN LATERAL (VALUES
+        ('ALL_TIME'::"public"."LeaderboardPeriod", TIMESTAMP '1970-01-01'),
+        ('MONTH', date_trunc('month', a."submittedAt")),
+        ('WEEK', date_trunc('week', a."submittedAt"))
+    ) AS p("period", "periodStart")
+)
+INSERT INTO "public"."LeaderboardEntry"
+    ("period", "periodStart", "topic", "mode", "userId", "tests", "questions", "correct", "updatedAt")
+SELECT "period", "periodStart", COALESCE("topic", 'ALL'), COALESCE("mode", 'ALL'), "userId",
+    COUNT(DISTINCT "testId"), COUNT(*), COUNT(*) FILTER (WHERE "isCorrect"), CURRENT_TIMESTAMP
+FROM "periodAnswer"
+GROUP BY "period", "periodStart", "userId", GROUPING SETS (("topic", "mode"), ("topic"), ("mode"), ());
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "public"."TestMode" ADD VALUE 'ADAPTIVE';
+
+-- AlterTable
+ALTER TABLE "public"."Question" ADD COLUMN     "irtCalibratedAt" TIMESTAMP(3),
+ADD COLUMN     "irtDifficulty" DOUBLE PRECISION,
+ADD COLUMN     "irtDiscrimination" DOUBLE PRECISION,
+ADD COLUMN     "irtResponses" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Test" ADD COLUMN     "abilityEstimate" DOUBLE PRECISION,
+ADD COLUMN     "abilityStandardError" DOUBLE PRECISION,
+ADD COLUMN     "questionCount" INTEGER;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "public"."TestQuestion" ADD COLUMN     "guessed" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."ReviewItem" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "questionId" INTEGER NOT NULL,
+    "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "interval" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "lapses" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "lastReviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewItem_userId_dueAt_idx" ON "public"."ReviewItem"("userId", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewItem_userId_questionId_key" ON "public"."ReviewItem"("userId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewItem" ADD CONSTRAINT "ReviewItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewItem" ADD CONSTRAINT "ReviewItem_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "public"."Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: queue every question missed in an already submitted test, due now
+INSERT INTO "public"."ReviewItem" ("userId", "questionId", "dueAt", "updatedAt")
+SELECT DISTINCT t."userId", tq."questionId", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "public"."TestQuestion" tq
+JOIN "public"."Test" t ON t."id" = tq."testId"
+WHERE t."submittedAt" IS NOT NULL AND tq."isCorrect" = false
+ON CONFLICT ("userId", "questionId") DO NOTHING;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."TestQuestion" ADD COLUMN     "flagged" BOOLEAN NOT NULL DEFAULT false;
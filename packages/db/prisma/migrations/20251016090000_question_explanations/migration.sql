@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Question" ADD COLUMN     "explanation" TEXT;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "public"."QuestionEventType" AS ENUM ('VIEW', 'DWELL', 'ANSWER');
+
+-- AlterTable
+ALTER TABLE "public"."TestQuestion" ADD COLUMN     "answerChanges" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "firstViewedAt" TIMESTAMP(3),
+ADD COLUMN     "timeSpentMs" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."TestQuestionEvent" (
+    "id" SERIAL NOT NULL,
+    "testQuestionId" INTEGER NOT NULL,
+    "type" "public"."QuestionEventType" NOT NULL,
+    "durationMs" INTEGER,
+    "answer" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TestQuestionEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TestQuestionEvent_testQuestionId_idx" ON "public"."TestQuestionEvent"("testQuestionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."TestQuestionEvent" ADD CONSTRAINT "TestQuestionEvent_testQuestionId_fkey" FOREIGN KEY ("testQuestionId") REFERENCES "public"."TestQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
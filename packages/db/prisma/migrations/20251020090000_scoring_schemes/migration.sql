@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."Test" ADD COLUMN     "marks" DOUBLE PRECISION,
+ADD COLUMN     "scoreBreakdown" JSONB,
+ADD COLUMN     "scoringRules" JSONB,
+ADD COLUMN     "scoringSchemeId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."ScoringScheme" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rules" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScoringScheme_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoringScheme_name_key" ON "public"."ScoringScheme"("name");
+
+-- AddForeignKey
+ALTER TABLE "public"."Test" ADD CONSTRAINT "Test_scoringSchemeId_fkey" FOREIGN KEY ("scoringSchemeId") REFERENCES "public"."ScoringScheme"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "public"."QuestionType" AS ENUM ('SINGLE_CHOICE', 'MULTI_SELECT', 'NUMERIC', 'ORDERING');
+
+-- AlterTable
+-- Answers become JSON so they can hold lists and numbers. Existing answers
+-- are option ids of single choice questions and become JSON strings.
+ALTER TABLE "public"."Question" ADD COLUMN     "type" "public"."QuestionType" NOT NULL DEFAULT 'SINGLE_CHOICE',
+ALTER COLUMN "answer" SET DATA TYPE JSONB USING to_jsonb("answer");
+
+-- AlterTable
+ALTER TABLE "public"."TestQuestion" ADD COLUMN     "credit" DOUBLE PRECISION,
+ALTER COLUMN "userAnswer" SET DATA TYPE JSONB USING to_jsonb("userAnswer");
+
+-- AlterTable
+ALTER TABLE "public"."TestQuestionEvent" ALTER COLUMN "answer" SET DATA TYPE JSONB USING to_jsonb("answer");
+
+-- Single choice answers earn all or nothing
+UPDATE "public"."TestQuestion"
+SET "credit" = CASE WHEN "isCorrect" THEN 1 ELSE 0 END
+WHERE "isCorrect" IS NOT NULL;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."Question" ADD COLUMN     "groupId" INTEGER,
+ADD COLUMN     "groupPosition" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."QuestionGroup" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "passage" TEXT,
+    "table" JSONB,
+    "chart" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "QuestionGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Question_groupId_idx" ON "public"."Question"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Question" ADD CONSTRAINT "Question_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."QuestionGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- DropIndex
+DROP INDEX "public"."LeaderboardEntry_period_periodStart_topic_mode_correct_idx";
+
+-- AlterTable
+ALTER TABLE "public"."LeaderboardEntry" ADD COLUMN     "marks" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "LeaderboardEntry_period_periodStart_topic_mode_marks_idx" ON "public"."LeaderboardEntry"("period", "periodStart", "topic", "mode", "marks");
+
+-- Backfill from the per-topic marks stored with each scored test. Tests
+-- scored before scoring schemes have no breakdown and were marked one per
+-- correct answer.
+WITH "testTopic" AS (
+    SELECT t."id" AS "testId", t."userId", t."submittedAt", t."mode"::text AS "mode",
+        q."topic"::text AS "topic",
+        COALESCE(
+            (SELECT (b->>'marks')::float8
+                FROM jsonb_array_elements(t."scoreBreakdown"->'byTopic') b
+                WHERE b->>'topic' = q."topic"::text),
+            COUNT(*) FILTER (WHERE tq."isCorrect")
+        ) AS "marks"
+    FROM "public"."Test" t
+    JOIN "public"."TestQuestion" tq ON tq."testId" = t."id"
+    JOIN "public"."Question" q ON q."id" = tq."questionId"
+    WHERE t."submittedAt" IS NOT NULL
+    GROUP BY t."id", q."topic"
+), "periodMarks" AS (
+    SELECT m.*, p."period", p."periodStart"
+    FROM "testTopic" m
+    CROSS JOIN LATERAL (VALUES
+        ('ALL_TIME'::"public"."LeaderboardPeriod", TIMESTAMP '1970-01-01'),
+        ('MONTH', date_trunc('month', m."submittedAt")),
+        ('WEEK', date_trunc('week', m."submittedAt"))
+    ) AS p("period", "periodStart")
+), "entryMarks" AS (
+    SELECT "period", "periodStart", COALESCE("topic", 'ALL') AS "topic",
+        COALESCE("mode", 'ALL') AS "mode", "userId", SUM("marks") AS "marks"
+    FROM "periodMarks"
+    GROUP BY "period", "periodStart", "userId", GROUPING SETS (("topic", "mode"), ("topic"), ("mode"), ())
+)
+UPDATE "public"."LeaderboardEntry" e
+SET "marks" = m."marks"
+FROM "entryMarks" m
+WHERE e."period" = m."period"
+    AND e."periodStart" = m."periodStart"
+    AND e."topic" = m."topic"
+    AND e."mode" = m."mode"
+    AND e."userId" = m."userId";
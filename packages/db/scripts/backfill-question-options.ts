@@ -0,0 +1,197 @@
+import { CreateQuestionSchema, QuestionOption } from "@repo/common/types";
+import { Prisma, prismaClient } from "../src/index";
+import { optionIdForIndex } from "../src/question-import";
+
+// Converts legacy questions, whose options are a plain array of strings and
+// whose answer is the text of the correct option, to option objects with
+// stable ids and an answer referencing one of those ids. Legacy questions
+// are all single choice; other types never had the old format.
+//
+// Answers given in past tests held the option text too, and are converted to
+// the id of the option with that label so results and reviews grade them
+// against the new answer keys.
+//
+// Usage: pnpm backfill:options [--dry-run]
+
+const dryRun = process.argv.includes("--dry-run");
+
+type Failure = {
+  id: number;
+  reason: string;
+};
+
+const convert = (options: unknown, answer: string) => {
+  if (!Array.isArray(options)) {
+    throw new Error("options is not an array");
+  }
+
+  const converted: QuestionOption[] = options.map((option, index) => {
+    if (typeof option === "string") {
+      return { id: optionIdForIndex(index), label: option.trim() };
+    }
+
+    return option as QuestionOption;
+  });
+
+  // Legacy answers hold the option text; fall back to letter keys (A, B, ...)
+  const byLabel = converted.find((option) => option.label === answer.trim());
+  const byId = converted.find(
+    (option) => option.id.toUpperCase() === answer.trim().toUpperCase()
+  );
+
+  return {
+    options: converted,
+    answer: byLabel?.id ?? byId?.id ?? answer,
+  };
+};
+
+// Rewrites the saved answers to one question, one distinct value at a time.
+// Answers to a question that still had legacy options are all option text;
+// once converted, only values that match no option id can still be text.
+const convertAnswers = async (
+  tx: Prisma.TransactionClient,
+  questionId: number,
+  options: QuestionOption[],
+  legacyOptions: boolean
+) => {
+  const answers = await tx.testQuestion.findMany({
+    where: {
+      questionId,
+    },
+    select: {
+      userAnswer: true,
+    },
+    distinct: ["userAnswer"],
+  });
+
+  let converted = 0;
+
+  for (const { userAnswer } of answers) {
+    if (typeof userAnswer !== "string") {
+      continue;
+    }
+
+    if (!legacyOptions && options.some((option) => option.id === userAnswer)) {
+      continue;
+    }
+
+    const option = options.find((candidate) => candidate.label === userAnswer.trim());
+
+    if (!option || option.id === userAnswer) {
+      continue;
+    }
+
+    if (dryRun) {
+      converted += await tx.testQuestion.count({
+        where: { questionId, userAnswer: { equals: userAnswer } },
+      });
+      continue;
+    }
+
+    const { count } = await tx.testQuestion.updateMany({
+      where: { questionId, userAnswer: { equals: userAnswer } },
+      data: { userAnswer: option.id },
+    });
+
+    converted += count;
+  }
+
+  return converted;
+};
+
+const main = async () => {
+  const questions = await prismaClient.question.findMany({
+    where: {
+      type: "SINGLE_CHOICE",
+    },
+    orderBy: {
+      id: "asc",
+    },
+  });
+
+  const failures: Failure[] = [];
+  let updated = 0;
+  let unchanged = 0;
+  let answers = 0;
+
+  for (const question of questions) {
+    let converted: ReturnType<typeof convert>;
+
+    try {
+      if (typeof question.answer !== "string") {
+        throw new Error("answer is not a string");
+      }
+      converted = convert(question.options, question.answer);
+    } catch (error) {
+      failures.push({ id: question.id, reason: (error as Error).message });
+      continue;
+    }
+
+    const parsed = CreateQuestionSchema.safeParse({
+      text: question.text,
+      difficulty: question.difficulty,
+      topic: question.topic,
+      ...converted,
+    });
+
+    if (!parsed.success) {
+      failures.push({
+        id: question.id,
+        reason: parsed.error.issues
+          .map((issue) => `${issue.path.join(".") || "question"}: ${issue.message}`)
+          .join("; "),
+      });
+      continue;
+    }
+
+    const legacyOptions =
+      Array.isArray(question.options) &&
+      question.options.some((option) => typeof option === "string");
+    const changed =
+      JSON.stringify(question.options) !== JSON.stringify(parsed.data.options) ||
+      question.answer !== parsed.data.answer;
+
+    // The question and its answers are converted together, so a rerun after
+    // a failure still knows which answers hold option text
+    answers += await prismaClient.$transaction(async (tx) => {
+      if (changed && !dryRun) {
+        await tx.question.update({
+          where: {
+            id: question.id,
+          },
+          data: {
+            options: parsed.data.options,
+            answer: parsed.data.answer,
+          },
+        });
+      }
+
+      return convertAnswers(tx, question.id, parsed.data.options, legacyOptions);
+    });
+
+    if (changed) {
+      updated++;
+    } else {
+      unchanged++;
+    }
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] " : ""}Checked ${questions.length} questions: ${updated} converted, ${unchanged} already valid, ${failures.length} failed, ${answers} test answers converted`
+  );
+
+  for (const failure of failures) {
+    console.log(`  Question ${failure.id}: ${failure.reason}`);
+  }
+
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prismaClient.$disconnect());
@@ -0,0 +1,40 @@
+import { prismaClient } from "../src/index";
+import { calibrateQuestions } from "../src/question-calibration";
+
+// Re-fits the IRT difficulty and discrimination of every question from past
+// test responses. Meant to run periodically, e.g. nightly from cron.
+//
+// Usage: pnpm calibrate:questions [--min-responses <n>] [--dry-run]
+
+const args = process.argv.slice(2);
+
+const readFlag = (name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const main = async () => {
+  const minResponses = Number(readFlag("--min-responses") ?? 30);
+
+  if (!Number.isInteger(minResponses) || minResponses < 1) {
+    console.error("--min-responses must be a positive integer");
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = await calibrateQuestions({
+    minResponses,
+    dryRun: args.includes("--dry-run"),
+  });
+
+  console.log(
+    `${report.dryRun ? "[dry run] " : ""}${report.responses} responses from ${report.users} users: ${report.calibrated} questions calibrated, ${report.skipped} with fewer than ${minResponses} responses`
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prismaClient.$disconnect());
@@ -0,0 +1,88 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { prismaClient } from "../src/index";
+import {
+  ImportFormat,
+  importQuestions,
+  QuestionColumnMapping,
+} from "../src/question-import";
+
+// Imports questions from a CSV, JSON or QTI 2.1 file into the question bank.
+// QTI accepts a zipped content package or a single assessmentItem XML file.
+//
+// Usage: pnpm import:questions <file> [--format csv|json|qti] [--dry-run]
+//          [--map text=Question,answer=Correct Option,...]
+
+const args = process.argv.slice(2);
+
+const readFlag = (name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const parseMapping = (value?: string): QuestionColumnMapping =>
+  Object.fromEntries(
+    (value ?? "")
+      .split(",")
+      .filter(Boolean)
+      .map((pair) => pair.split("=").map((part) => part.trim()))
+  );
+
+const main = async () => {
+  const file = args.find(
+    (arg, index) => !arg.startsWith("--") && !args[index - 1]?.match(/^--(format|map)$/)
+  );
+
+  if (!file) {
+    console.error(
+      "Usage: pnpm import:questions <file> [--format csv|json|qti] [--dry-run] [--map field=column,...]"
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const extension = extname(file).slice(1).toLowerCase();
+  const format = (readFlag("--format") ??
+    (extension === "zip" || extension === "xml" ? "qti" : extension)) as ImportFormat;
+
+  if (format !== "csv" && format !== "json" && format !== "qti") {
+    console.error(`Unsupported format "${format}", expected csv, json or qti`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // QTI packages are binary zip files
+  const encoding = format === "qti" ? "base64" : "utf8";
+
+  const report = await importQuestions(readFileSync(file).toString(encoding), {
+    format,
+    encoding,
+    mapping: parseMapping(readFlag("--map")),
+    dryRun: args.includes("--dry-run"),
+  });
+
+  console.log(
+    `${report.dryRun ? "[dry run] " : ""}${report.total} rows: ${report.valid} valid, ${report.errors.length} invalid, ${report.duplicates.length} duplicates, ${report.imported} imported`
+  );
+
+  for (const { row, errors } of report.errors) {
+    console.log(`  Row ${row}: ${errors.join("; ")}`);
+  }
+
+  for (const { row, text, questionId, duplicateOfRow } of report.duplicates) {
+    const source = questionId !== undefined ? `question ${questionId}` : `row ${duplicateOfRow}`;
+    console.log(`  Row ${row}: duplicate of ${source} (${text})`);
+  }
+
+  if (!report.dryRun && !report.committed) {
+    console.log("Nothing was imported because some rows are invalid");
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prismaClient.$disconnect());
@@ -0,0 +1,88 @@
+// Minimal RFC 4180 CSV support: quoted fields, escaped quotes ("") and
+// newlines inside quotes. Enough for spreadsheet exports of the question bank.
+
+export type CsvRow = {
+  // The line of the file the row starts on, counting from 1
+  line: number;
+  cells: string[];
+};
+
+export const parseCsv = (content: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  // Drop blank lines
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+};
+
+// Parses a CSV document with a header row into one record per data row,
+// along with the line the row starts on for error reporting.
+export const parseCsvRecords = (
+  content: string
+): { line: number; record: Record<string, string> }[] => {
+  const [header, ...rows] = parseCsv(content);
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.cells.map((column) => column.trim());
+
+  return rows.map(({ line, cells }) => ({
+    line,
+    record: Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])),
+  }));
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsvRow = (cells: string[]) => `${cells.map(escapeCsvCell).join(",")}\r\n`;
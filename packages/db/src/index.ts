@@ -1,3 +1,5 @@
 import { PrismaClient } from "@prisma/client";
 
+export { Prisma } from "@prisma/client";
+
 export const prismaClient = new PrismaClient();
@@ -0,0 +1,140 @@
+// Two-parameter logistic (2PL) item response theory: the chance that a person
+// of ability theta answers an item correctly is
+//   1 / (1 + exp(-a * (theta - b)))
+// where b is the item difficulty and a its discrimination, both on the same
+// logit scale as theta (0 is an average test taker).
+
+export type ItemParameters = {
+  difficulty: number;
+  discrimination: number;
+};
+
+export type AbilityEstimate = {
+  estimate: number;
+  standardError: number;
+};
+
+export type Response = ItemParameters & {
+  correct: boolean;
+};
+
+// Stand-ins for questions the calibration job has not reached yet
+const DIFFICULTY_LEVELS = {
+  EASY: -1,
+  MEDIUM: 0,
+  HARD: 1,
+} as const;
+
+export const getItemParameters = (question: {
+  difficulty: keyof typeof DIFFICULTY_LEVELS;
+  irtDifficulty: number | null;
+  irtDiscrimination: number | null;
+}): ItemParameters => ({
+  difficulty: question.irtDifficulty ?? DIFFICULTY_LEVELS[question.difficulty],
+  discrimination: question.irtDiscrimination ?? 1,
+});
+
+export const probabilityCorrect = (theta: number, { difficulty, discrimination }: ItemParameters) =>
+  1 / (1 + Math.exp(-discrimination * (theta - difficulty)));
+
+// Fisher information of an item at theta; adaptive tests ask the item that
+// maximises it, i.e. the one that narrows the estimate the most.
+export const itemInformation = (theta: number, item: ItemParameters) => {
+  const p = probabilityCorrect(theta, item);
+  return item.discrimination ** 2 * p * (1 - p);
+};
+
+// Quadrature grid for the posterior, covering practically every test taker
+const THETA_GRID = Array.from({ length: 161 }, (_, i) => -4 + i * 0.05);
+
+// Expected a posteriori estimate with a standard normal prior. Unlike maximum
+// likelihood it stays finite when every answer is right (or wrong), and the
+// posterior standard deviation doubles as the standard error.
+export const estimateAbility = (responses: Response[]): AbilityEstimate => {
+  const weights = THETA_GRID.map((theta) => {
+    let logLikelihood = -(theta ** 2) / 2;
+
+    for (const response of responses) {
+      const p = probabilityCorrect(theta, response);
+      logLikelihood += Math.log(response.correct ? p : 1 - p);
+    }
+
+    return logLikelihood;
+  });
+
+  // Normalise in log space first so long tests do not underflow
+  const max = Math.max(...weights);
+  const posterior = weights.map((weight) => Math.exp(weight - max));
+  const total = posterior.reduce((sum, weight) => sum + weight, 0);
+
+  const estimate =
+    THETA_GRID.reduce((sum, theta, i) => sum + theta * posterior[i]!, 0) / total;
+  const variance =
+    THETA_GRID.reduce((sum, theta, i) => sum + (theta - estimate) ** 2 * posterior[i]!, 0) / total;
+
+  return { estimate, standardError: Math.sqrt(variance) };
+};
+
+// 95% confidence interval around an ability estimate
+export const confidenceInterval = ({ estimate, standardError }: AbilityEstimate) => ({
+  lower: estimate - 1.96 * standardError,
+  upper: estimate + 1.96 * standardError,
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Fits one item's parameters to (ability, outcome) pairs by logistic
+// regression of the outcome on ability. A small ridge penalty keeps the fit
+// finite when the outcomes are perfectly separated.
+export const fitItemParameters = (
+  observations: { theta: number; correct: boolean }[]
+): ItemParameters => {
+  // Model: logit(p) = intercept + slope * theta, so a = slope, b = -intercept / slope
+  let intercept = 0;
+  let slope = 1;
+  const ridge = 0.1;
+
+  for (let iteration = 0; iteration < 25; iteration++) {
+    let gradIntercept = -ridge * intercept;
+    let gradSlope = -ridge * (slope - 1);
+    let hessII = -ridge;
+    let hessIS = 0;
+    let hessSS = -ridge;
+
+    for (const { theta, correct } of observations) {
+      const p = 1 / (1 + Math.exp(-(intercept + slope * theta)));
+      const residual = (correct ? 1 : 0) - p;
+      const weight = p * (1 - p);
+
+      gradIntercept += residual;
+      gradSlope += residual * theta;
+      hessII -= weight;
+      hessIS -= weight * theta;
+      hessSS -= weight * theta * theta;
+    }
+
+    // Newton step: solve the 2x2 system H * delta = -gradient
+    const determinant = hessII * hessSS - hessIS * hessIS;
+
+    if (Math.abs(determinant) < 1e-12) {
+      break;
+    }
+
+    const deltaIntercept = -(hessSS * gradIntercept - hessIS * gradSlope) / determinant;
+    const deltaSlope = -(hessII * gradSlope - hessIS * gradIntercept) / determinant;
+
+    intercept += deltaIntercept;
+    slope += deltaSlope;
+
+    if (Math.abs(deltaIntercept) + Math.abs(deltaSlope) < 1e-6) {
+      break;
+    }
+  }
+
+  const discrimination = clamp(slope, 0.2, 3);
+
+  return {
+    discrimination,
+    difficulty: clamp(-intercept / discrimination, -4, 4),
+  };
+};
@@ -0,0 +1,404 @@
+import { XMLParser } from "fast-xml-parser";
+import { strFromU8, strToU8, unzipSync, Zip, ZipDeflate } from "fflate";
+import type { Difficulty, Question, QuestionType } from "@prisma/client";
+import { NumericAnswerKeySchema, type QuestionOption } from "@repo/common/types";
+
+// IMS QTI 2.1 support. Questions are exported as an IMS content package: one
+// assessmentItem file per question plus an imsmanifest.xml whose LOM metadata
+// carries the difficulty, topic and tags, which QTI items have no place for.
+// Single choice and multi-select questions become choice interactions,
+// ordering questions order interactions and numeric questions text entries
+// with a float response compared within the tolerance. An option's Markdown
+// content goes in a <div class="option-content"> after its label.
+
+export type QtiQuestion = Pick<
+  Question,
+  "id" | "text" | "type" | "options" | "answer" | "difficulty" | "topic" | "tags" | "explanation"
+>;
+
+const CARDINALITY: Record<QuestionType, string> = {
+  SINGLE_CHOICE: "single",
+  MULTI_SELECT: "multiple",
+  NUMERIC: "single",
+  ORDERING: "ordered",
+};
+
+const TOPIC_KEYWORD_PREFIX = "topic:";
+
+const OPTION_CONTENT_CLASS = "option-content";
+
+// LOM vocabulary for educational/difficulty
+const LOM_DIFFICULTY: Record<Difficulty, string> = {
+  EASY: "easy",
+  MEDIUM: "medium",
+  HARD: "difficult",
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const itemIdentifier = (question: QtiQuestion) => `question-${question.id}`;
+
+const itemHref = (question: QtiQuestion) => `items/${itemIdentifier(question)}.xml`;
+
+const toOptionContent = (option: QuestionOption) =>
+  option.content === undefined
+    ? ""
+    : `<div class="${OPTION_CONTENT_CLASS}">${escapeXml(option.content)}</div>`;
+
+const toSimpleChoices = (options: QuestionOption[]) =>
+  options
+    .map(
+      (option) =>
+        `      <simpleChoice identifier="${escapeXml(option.id)}">${escapeXml(option.label)}${toOptionContent(option)}</simpleChoice>`
+    )
+    .join("\n");
+
+const toInteraction = (question: QtiQuestion) => {
+  const options = question.options as QuestionOption[];
+
+  switch (question.type) {
+    case "SINGLE_CHOICE":
+    case "MULTI_SELECT":
+      return `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${question.type === "SINGLE_CHOICE" ? 1 : 0}">
+${toSimpleChoices(options)}
+    </choiceInteraction>`;
+    case "ORDERING":
+      return `    <orderInteraction responseIdentifier="RESPONSE" shuffle="false">
+${toSimpleChoices(options)}
+    </orderInteraction>`;
+    case "NUMERIC":
+      return `    <div><textEntryInteraction responseIdentifier="RESPONSE"/></div>`;
+  }
+};
+
+const toCorrectValues = (question: QtiQuestion): string[] => {
+  switch (question.type) {
+    case "SINGLE_CHOICE":
+      return [question.answer as string];
+    case "MULTI_SELECT":
+    case "ORDERING":
+      return question.answer as string[];
+    case "NUMERIC":
+      return [String(NumericAnswerKeySchema.parse(question.answer).value)];
+  }
+};
+
+const MATCH_CORRECT = `
+  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>`;
+
+// match_correct has no tolerance, so numeric items spell the check out
+const toResponseProcessing = (question: QtiQuestion) => {
+  if (question.type !== "NUMERIC") {
+    return MATCH_CORRECT;
+  }
+
+  const { tolerance } = NumericAnswerKeySchema.parse(question.answer);
+
+  return `
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <equal toleranceMode="absolute" tolerance="${tolerance}">
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </equal>
+        <setOutcomeValue identifier="SCORE">
+          <baseValue baseType="float">1</baseValue>
+        </setOutcomeValue>
+      </responseIf>
+      <responseElse>
+        <setOutcomeValue identifier="SCORE">
+          <baseValue baseType="float">0</baseValue>
+        </setOutcomeValue>
+      </responseElse>
+    </responseCondition>
+  </responseProcessing>`;
+};
+
+export const toQtiItem = (question: QtiQuestion) => {
+  // FEEDBACK is never set, so a "hide" feedback shows after every attempt
+  const feedback = question.explanation
+    ? `
+  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="hide">${escapeXml(question.explanation)}</modalFeedback>`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="${itemIdentifier(question)}" title="${escapeXml(question.text.slice(0, 80))}"
+  adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="${CARDINALITY[question.type]}" baseType="${question.type === "NUMERIC" ? "float" : "identifier"}">
+    <correctResponse>
+${toCorrectValues(question)
+  .map((value) => `      <value>${escapeXml(value)}</value>`)
+  .join("\n")}
+    </correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+    <p>${escapeXml(question.text)}</p>
+${toInteraction(question)}
+  </itemBody>${toResponseProcessing(question)}${feedback}
+</assessmentItem>
+`;
+};
+
+const toManifestResource = (question: QtiQuestion) => {
+  const keywords = [`${TOPIC_KEYWORD_PREFIX}${question.topic}`, ...question.tags];
+
+  return `    <resource identifier="${itemIdentifier(question)}" type="imsqti_item_xmlv2p1" href="${itemHref(question)}">
+      <metadata>
+        <imsmd:lom>
+          <imsmd:general>
+${keywords
+  .map(
+    (keyword) =>
+      `            <imsmd:keyword><imsmd:string>${escapeXml(keyword)}</imsmd:string></imsmd:keyword>`
+  )
+  .join("\n")}
+          </imsmd:general>
+          <imsmd:educational>
+            <imsmd:difficulty>
+              <imsmd:source>LOMv1.0</imsmd:source>
+              <imsmd:value>${LOM_DIFFICULTY[question.difficulty]}</imsmd:value>
+            </imsmd:difficulty>
+          </imsmd:educational>
+        </imsmd:lom>
+      </metadata>
+      <file href="${itemHref(question)}"/>
+    </resource>`;
+};
+
+const toManifest = (resources: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM"
+  identifier="MANIFEST-question-bank">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources.join("\n")}
+  </resources>
+</manifest>
+`;
+
+// Yields a zipped content package as the questions are produced. Compressed
+// chunks are handed on after every file, so large banks never have to be
+// held in memory as long as the consumer keeps pulling.
+export async function* toQtiPackageChunks(
+  questions: AsyncIterable<QtiQuestion>
+): AsyncGenerator<Uint8Array> {
+  const pending: Uint8Array[] = [];
+
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      throw error;
+    }
+    pending.push(chunk);
+  });
+
+  const addFile = (name: string, content: string) => {
+    const file = new ZipDeflate(name, { level: 6 });
+    zip.add(file);
+    file.push(strToU8(content), true);
+  };
+
+  const resources: string[] = [];
+
+  for await (const question of questions) {
+    addFile(itemHref(question), toQtiItem(question));
+    resources.push(toManifestResource(question));
+    yield* pending.splice(0);
+  }
+
+  addFile("imsmanifest.xml", toManifest(resources));
+  zip.end();
+  yield* pending.splice(0);
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ["resource", "keyword", "simpleChoice", "p", "value"].includes(name),
+});
+
+// Text content of a parsed node, flattening inline markup such as <strong>
+const textOf = (node: unknown): string => {
+  if (node === undefined || node === null) {
+    return "";
+  }
+  if (typeof node !== "object") {
+    return String(node);
+  }
+  if (Array.isArray(node)) {
+    return node.map(textOf).join("\n");
+  }
+
+  return Object.entries(node)
+    .filter(([key]) => !key.startsWith("@_"))
+    .map(([, value]) => textOf(value))
+    .join(" ")
+    .trim();
+};
+
+// Loosely typed output of fast-xml-parser, narrowed as it is read
+type XmlNode = Record<string, unknown>;
+
+const isXmlNode = (value: unknown): value is XmlNode =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The node at `path` below `node`, or undefined when any step is missing
+const at = (node: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => (isXmlNode(current) ? current[key] : undefined), node);
+
+const attributeOf = (node: unknown, name: string) => {
+  const value = at(node, `@_${name}`);
+  return value === undefined ? undefined : String(value);
+};
+
+// Elements that may occur once or repeatedly, as a list
+const listOf = (value: unknown): unknown[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+type QtiMetadata = {
+  difficulty?: string;
+  topic?: string;
+  tags?: string[];
+};
+
+const toQuestionType = (item: XmlNode): QuestionType => {
+  const declaration = at(item, "responseDeclaration");
+  const baseType = attributeOf(declaration, "baseType");
+
+  if (baseType === "float" || baseType === "integer") {
+    return "NUMERIC";
+  }
+  if (at(item, "itemBody", "orderInteraction") !== undefined) {
+    return "ORDERING";
+  }
+
+  return attributeOf(declaration, "cardinality") === "multiple" ? "MULTI_SELECT" : "SINGLE_CHOICE";
+};
+
+// The tolerance of a numeric item is read back from the <equal> its response
+// processing was exported with; other tools' items are matched exactly.
+const toAnswerKey = (item: XmlNode, type: QuestionType, values: string[]) => {
+  switch (type) {
+    case "SINGLE_CHOICE":
+      return values[0] ?? "";
+    case "MULTI_SELECT":
+    case "ORDERING":
+      return values;
+    case "NUMERIC": {
+      const equal = at(item, "responseProcessing", "responseCondition", "responseIf", "equal");
+      const tolerance = Number((attributeOf(equal, "tolerance") ?? "0").split(" ")[0]);
+
+      return {
+        value: Number(values[0]),
+        tolerance: attributeOf(equal, "toleranceMode") === "absolute" ? tolerance : 0,
+      };
+    }
+  }
+};
+
+// The label is the choice's text without the option content, if any
+const toOption = (choice: unknown) => {
+  const divs = listOf(at(choice, "div"));
+  const content = divs.find((div) => attributeOf(div, "class") === OPTION_CONTENT_CLASS);
+
+  return {
+    id: attributeOf(choice, "identifier"),
+    label: textOf({
+      ...(isXmlNode(choice) ? choice : { "#text": choice }),
+      div: divs.filter((div) => div !== content),
+    }),
+    ...(content !== undefined && { content: textOf(content) }),
+  };
+};
+
+const parseQtiItem = (xml: string, metadata: QtiMetadata = {}) => {
+  const item = at(parser.parse(xml), "assessmentItem");
+
+  if (!isXmlNode(item)) {
+    throw new Error("Not a QTI assessmentItem");
+  }
+
+  const values = listOf(at(item, "responseDeclaration", "correctResponse", "value")).map(textOf);
+  const type = toQuestionType(item);
+  const interaction =
+    at(item, "itemBody", "orderInteraction") ?? at(item, "itemBody", "choiceInteraction");
+
+  return {
+    text: textOf(at(item, "itemBody", "p")),
+    type,
+    options: listOf(at(interaction, "simpleChoice")).map(toOption),
+    answer: toAnswerKey(item, type, values),
+    explanation: textOf(at(item, "modalFeedback")) || undefined,
+    ...metadata,
+  };
+};
+
+const parseResourceMetadata = (resource: unknown): QtiMetadata => {
+  const lom = at(resource, "metadata", "lom");
+  const keywords = listOf(at(lom, "general", "keyword")).map((keyword) =>
+    textOf(at(keyword, "string") ?? keyword)
+  );
+  const lomDifficulty = textOf(at(lom, "educational", "difficulty", "value"));
+
+  return {
+    difficulty: (Object.keys(LOM_DIFFICULTY) as Difficulty[]).find(
+      (difficulty) => LOM_DIFFICULTY[difficulty] === lomDifficulty
+    ),
+    topic: keywords
+      .find((keyword) => keyword.startsWith(TOPIC_KEYWORD_PREFIX))
+      ?.slice(TOPIC_KEYWORD_PREFIX.length),
+    tags: keywords.filter((keyword) => !keyword.startsWith(TOPIC_KEYWORD_PREFIX)),
+  };
+};
+
+// Reads questions from a zipped content package, or from a single
+// assessmentItem XML document (which carries no difficulty or topic).
+export const readQtiRecords = (content: Uint8Array): Record<string, unknown>[] => {
+  const isZip = content[0] === 0x50 && content[1] === 0x4b;
+
+  if (!isZip) {
+    return [parseQtiItem(strFromU8(content))];
+  }
+
+  const files = unzipSync(content);
+  const manifest = files["imsmanifest.xml"];
+
+  if (!manifest) {
+    throw new Error("Content package has no imsmanifest.xml");
+  }
+
+  const resources = listOf(
+    at(parser.parse(strFromU8(manifest)), "manifest", "resources", "resource")
+  );
+
+  return resources
+    .filter((resource) => attributeOf(resource, "type") === "imsqti_item_xmlv2p1")
+    .map((resource) => {
+      const href = attributeOf(resource, "href") ?? "";
+      const file = files[href];
+
+      if (!file) {
+        throw new Error(`Content package is missing ${href}`);
+      }
+
+      return parseQtiItem(strFromU8(file), parseResourceMetadata(resource));
+    });
+};
@@ -0,0 +1,163 @@
+import { prismaClient } from "./index";
+import {
+  estimateAbility,
+  fitItemParameters,
+  getItemParameters,
+  ItemParameters,
+} from "./irt";
+
+export type CalibrationOptions = {
+  // Questions with fewer answered responses keep their current parameters
+  minResponses?: number;
+  dryRun?: boolean;
+};
+
+export type CalibrationReport = {
+  dryRun: boolean;
+  responses: number;
+  users: number;
+  calibrated: number;
+  skipped: number;
+};
+
+type ResponseRow = {
+  userId: number;
+  questionId: number;
+  correct: boolean;
+};
+
+// Abilities and item parameters are fitted in alternation, starting from
+// each user's overall accuracy. A few rounds are enough for the estimates to
+// settle.
+const ROUNDS = 3;
+
+const logit = (p: number) => Math.log(p / (1 - p));
+
+// Rescales abilities to mean 0 and standard deviation 1, which pins down the
+// otherwise arbitrary origin and unit of the scale.
+const standardize = (abilities: Map<number, number>) => {
+  const values = [...abilities.values()];
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const sd =
+    Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length) || 1;
+
+  for (const [userId, value] of abilities) {
+    abilities.set(userId, (value - mean) / sd);
+  }
+};
+
+const groupBy = <T, K>(items: T[], key: (item: T) => K) => {
+  const groups = new Map<K, T[]>();
+
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+
+  return groups;
+};
+
+// Re-estimates 2PL difficulty and discrimination for every question from the
+// answered questions of submitted tests.
+export const calibrateQuestions = async ({
+  minResponses = 30,
+  dryRun = false,
+}: CalibrationOptions = {}): Promise<CalibrationReport> => {
+  const responses = await prismaClient.$queryRaw<ResponseRow[]>`
+    SELECT t."userId", tq."questionId", tq."isCorrect" AS "correct"
+    FROM "public"."TestQuestion" tq
+    JOIN "public"."Test" t ON t."id" = tq."testId"
+    WHERE t."submittedAt" IS NOT NULL
+      AND tq."userAnswer" IS NOT NULL
+      AND tq."isCorrect" IS NOT NULL
+  `;
+
+  const byUser = groupBy(responses, (response) => response.userId);
+  const byQuestion = groupBy(responses, (response) => response.questionId);
+
+  const questions = await prismaClient.question.findMany({
+    where: {
+      id: {
+        in: [...byQuestion.keys()],
+      },
+    },
+    select: {
+      id: true,
+      difficulty: true,
+      irtDifficulty: true,
+      irtDiscrimination: true,
+    },
+  });
+
+  const parameters = new Map<number, ItemParameters>(
+    questions.map((question) => [question.id, getItemParameters(question)])
+  );
+
+  // Smoothed so perfect and zero scores still have a finite logit
+  const abilities = new Map<number, number>();
+  for (const [userId, answers] of byUser) {
+    const correct = answers.filter((answer) => answer.correct).length;
+    abilities.set(userId, logit((correct + 0.5) / (answers.length + 1)));
+  }
+  standardize(abilities);
+
+  const calibrated = new Set<number>();
+
+  for (let round = 0; round < ROUNDS; round++) {
+    for (const [questionId, answers] of byQuestion) {
+      if (answers.length < minResponses || !parameters.has(questionId)) {
+        continue;
+      }
+
+      parameters.set(
+        questionId,
+        fitItemParameters(
+          answers.map(({ userId, correct }) => ({ theta: abilities.get(userId)!, correct }))
+        )
+      );
+      calibrated.add(questionId);
+    }
+
+    for (const [userId, answers] of byUser) {
+      const { estimate } = estimateAbility(
+        answers
+          .filter((answer) => parameters.has(answer.questionId))
+          .map((answer) => ({ ...parameters.get(answer.questionId)!, correct: answer.correct }))
+      );
+      abilities.set(userId, estimate);
+    }
+    standardize(abilities);
+  }
+
+  if (!dryRun && calibrated.size > 0) {
+    const calibratedAt = new Date();
+
+    await prismaClient.$transaction(
+      [...calibrated].map((questionId) =>
+        prismaClient.question.update({
+          where: {
+            id: questionId,
+          },
+          data: {
+            irtDifficulty: parameters.get(questionId)!.difficulty,
+            irtDiscrimination: parameters.get(questionId)!.discrimination,
+            irtResponses: byQuestion.get(questionId)!.length,
+            irtCalibratedAt: calibratedAt,
+          },
+        })
+      )
+    );
+  }
+
+  return {
+    dryRun,
+    responses: responses.length,
+    users: byUser.size,
+    calibrated: calibrated.size,
+    skipped: byQuestion.size - calibrated.size,
+  };
+};
@@ -0,0 +1,127 @@
+import { Readable } from "node:stream";
+import { QuestionFilterSchema } from "@repo/common/types";
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prismaClient } from "./index";
+import { toCsvRow } from "./csv";
+import { QtiQuestion, toQtiPackageChunks } from "./qti";
+
+export type ExportFormat = "json" | "csv" | "qti";
+
+export type QuestionFilter = z.infer<typeof QuestionFilterSchema>;
+
+const BATCH_SIZE = 500;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv; charset=utf-8",
+  qti: "application/zip",
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  qti: "zip",
+};
+
+export const toQuestionWhere = ({
+  topic,
+  difficulty,
+  tag,
+  groupId,
+}: QuestionFilter): Prisma.QuestionWhereInput => ({
+  topic,
+  difficulty,
+  groupId,
+  ...(tag && { tags: { has: tag } }),
+});
+
+// Walks the filtered bank in id order, one batch at a time.
+async function* iterateQuestions(filter: QuestionFilter): AsyncGenerator<QtiQuestion> {
+  let cursor: number | undefined;
+
+  while (true) {
+    const batch = await prismaClient.question.findMany({
+      where: {
+        ...toQuestionWhere(filter),
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        text: true,
+        type: true,
+        options: true,
+        answer: true,
+        difficulty: true,
+        topic: true,
+        tags: true,
+        explanation: true,
+      },
+      orderBy: {
+        id: "asc",
+      },
+      take: BATCH_SIZE,
+      ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    yield* batch;
+
+    if (batch.length < BATCH_SIZE) {
+      return;
+    }
+
+    cursor = batch[batch.length - 1]!.id;
+  }
+}
+
+async function* toJsonChunks(questions: AsyncIterable<QtiQuestion>) {
+  let first = true;
+
+  yield "[";
+  for await (const { id: _id, ...question } of questions) {
+    yield `${first ? "" : ","}\n${JSON.stringify(question)}`;
+    first = false;
+  }
+  yield "\n]\n";
+}
+
+// Options and answer keys other than a single option id are written as JSON
+// so ids and rich content survive a round trip through the CSV importer.
+async function* toCsvChunks(questions: AsyncIterable<QtiQuestion>) {
+  yield toCsvRow([
+    "text",
+    "type",
+    "options",
+    "answer",
+    "difficulty",
+    "topic",
+    "tags",
+    "explanation",
+  ]);
+  for await (const question of questions) {
+    yield toCsvRow([
+      question.text,
+      question.type,
+      JSON.stringify(question.options),
+      typeof question.answer === "string" ? question.answer : JSON.stringify(question.answer),
+      question.difficulty,
+      question.topic,
+      question.tags.join("|"),
+      question.explanation ?? "",
+    ]);
+  }
+}
+
+// Streams the filtered, non-deleted question bank in the requested format.
+export const exportQuestions = (format: ExportFormat, filter: QuestionFilter): Readable => {
+  const questions = iterateQuestions(filter);
+
+  switch (format) {
+    case "json":
+      return Readable.from(toJsonChunks(questions));
+    case "csv":
+      return Readable.from(toCsvChunks(questions));
+    case "qti":
+      return Readable.from(toQtiPackageChunks(questions));
+  }
+};
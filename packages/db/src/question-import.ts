@@ -0,0 +1,336 @@
+import {
+  CreateQuestionSchema,
+  QuestionColumnMappingSchema,
+  QuestionOption,
+} from "@repo/common/types";
+import { z } from "zod";
+import { prismaClient } from "./index";
+import { parseCsvRecords } from "./csv";
+import { readQtiRecords } from "./qti";
+
+export type ImportFormat = "csv" | "json" | "qti";
+
+export type QuestionColumnMapping = z.infer<typeof QuestionColumnMappingSchema>;
+
+type ImportedQuestion = z.infer<typeof CreateQuestionSchema>;
+
+// `row` is the line a CSV row starts on, or the position of a JSON or QTI
+// item in the file, counting from 1
+export type ImportRowError = {
+  row: number;
+  errors: string[];
+};
+
+export type ImportDuplicate = {
+  row: number;
+  text: string;
+  // Set when the question already exists in the bank, otherwise the
+  // duplicate is an earlier row of the same file.
+  questionId?: number;
+  duplicateOfRow?: number;
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  committed: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  errors: ImportRowError[];
+  duplicates: ImportDuplicate[];
+};
+
+// Thrown when the file as a whole cannot be read, as opposed to per-row
+// validation errors which are collected in the report.
+export class ImportFileError extends Error {}
+
+const FIELDS = [
+  "text",
+  "type",
+  "options",
+  "answer",
+  "difficulty",
+  "topic",
+  "tags",
+  "explanation",
+] as const;
+
+export const optionIdForIndex = (index: number) =>
+  index < 26 ? String.fromCharCode(65 + index) : `OPT${index + 1}`;
+
+// Accepts options as an array or as a CSV cell holding either a JSON array or
+// labels separated by "|". Plain labels get letter ids (A, B, C, ...). An
+// empty cell means no options, as for numeric questions.
+export const toQuestionOptions = (value: unknown): unknown => {
+  let options = value;
+
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+
+    if (trimmed === "") {
+      return undefined;
+    }
+
+    options = trimmed.startsWith("[") ? JSON.parse(trimmed) : trimmed.split("|");
+  }
+
+  if (!Array.isArray(options)) {
+    return options;
+  }
+
+  return options.map((option, index) =>
+    typeof option === "string"
+      ? { id: optionIdForIndex(index), label: option.trim() }
+      : option
+  );
+};
+
+// Answers may reference an option id or repeat the option label.
+const toAnswerId = (answer: unknown, options: unknown) => {
+  if (typeof answer !== "string" || !Array.isArray(options)) {
+    return answer;
+  }
+
+  const value = answer.trim();
+  const match =
+    options.find((option: QuestionOption) => option?.id === value) ??
+    options.find((option: QuestionOption) => option?.label === value);
+
+  return match?.id ?? value;
+};
+
+// Cells that are not valid JSON are left for the schema to reject
+const parseJsonCell = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Answer keys are written to CSV as JSON unless they are a single option id.
+// Hand-written files may also list multi-select and ordering answers
+// separated by "|", or give just the value of a numeric answer.
+const toAnswerKey = (answer: unknown, type: unknown, options: unknown) => {
+  if (type === "NUMERIC" && typeof answer === "number") {
+    return { value: answer };
+  }
+
+  let key = answer;
+
+  if (typeof answer === "string" && type !== undefined && type !== "SINGLE_CHOICE") {
+    const trimmed = answer.trim();
+
+    if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+      key = parseJsonCell(trimmed);
+    } else if (type === "NUMERIC") {
+      key = trimmed === "" ? trimmed : { value: Number(trimmed) };
+    } else {
+      key = trimmed.split("|");
+    }
+  }
+
+  return Array.isArray(key) ? key.map((id) => toAnswerId(id, options)) : toAnswerId(key, options);
+};
+
+const toTags = (value: unknown) =>
+  typeof value === "string" ? value.split("|").filter((tag) => tag.trim() !== "") : value;
+
+// Empty CSV cells mean "no explanation"
+const toExplanation = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value;
+
+const toEnumValue = (value: unknown) =>
+  typeof value === "string" ? value.trim().toUpperCase() : value;
+
+// Empty CSV cells mean "single choice"
+const toQuestionType = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : toEnumValue(value);
+
+export const normalizeQuestionText = (text: string) =>
+  text.trim().replace(/\s+/g, " ").toLowerCase();
+
+type SourceRecord = {
+  row: number;
+  record: unknown;
+};
+
+const numbered = (records: unknown[]): SourceRecord[] =>
+  records.map((record, index) => ({ row: index + 1, record }));
+
+const readRecords = (
+  content: string,
+  format: ImportFormat,
+  encoding: BufferEncoding
+): SourceRecord[] => {
+  if (format === "qti") {
+    try {
+      return numbered(readQtiRecords(Buffer.from(content, encoding)));
+    } catch (error) {
+      throw new ImportFileError(`Invalid QTI file: ${(error as Error).message}`);
+    }
+  }
+
+  if (format === "csv") {
+    return parseCsvRecords(content).map(({ line, record }) => ({ row: line, record }));
+  }
+
+  let parsed;
+
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ImportFileError(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const records = Array.isArray(parsed) ? parsed : parsed?.questions;
+
+  if (!Array.isArray(records)) {
+    throw new ImportFileError(
+      'JSON import must be an array of questions or { "questions": [...] }'
+    );
+  }
+
+  return numbered(records);
+};
+
+// JSON items can be anything; only objects can hold a question
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const mapRecord = (record: Record<string, unknown>, mapping: QuestionColumnMapping) =>
+  Object.fromEntries(FIELDS.map((field) => [field, record[mapping[field] ?? field]]));
+
+const toImportedQuestion = (record: Record<string, unknown>) => {
+  let options: unknown;
+
+  try {
+    options = toQuestionOptions(record.options);
+  } catch {
+    return CreateQuestionSchema.safeParse({ ...record, options: "invalid JSON" });
+  }
+
+  const type = toQuestionType(record.type);
+
+  return CreateQuestionSchema.safeParse({
+    ...record,
+    type,
+    options,
+    answer: toAnswerKey(record.answer, type, options),
+    difficulty: toEnumValue(record.difficulty),
+    topic: toEnumValue(record.topic),
+    tags: toTags(record.tags),
+    explanation: toExplanation(record.explanation),
+  });
+};
+
+// Validates every row of a CSV, JSON or QTI file and reports per-row errors and
+// duplicates. Questions are only written when the whole file is valid and
+// `dryRun` is off; duplicates are reported and skipped.
+export const importQuestions = async (
+  content: string,
+  {
+    format,
+    encoding = "utf8",
+    mapping = {},
+    dryRun = false,
+  }: {
+    format: ImportFormat;
+    encoding?: "utf8" | "base64";
+    mapping?: QuestionColumnMapping;
+    dryRun?: boolean;
+  }
+): Promise<ImportReport> => {
+  const records = readRecords(content, format, encoding);
+
+  const errors: ImportRowError[] = [];
+  const valid: { row: number; question: ImportedQuestion }[] = [];
+
+  records.forEach(({ row, record }) => {
+    if (!isRecord(record)) {
+      errors.push({ row, errors: ["question: Each question must be an object"] });
+      return;
+    }
+
+    const parsed = toImportedQuestion(mapRecord(record, mapping));
+
+    if (!parsed.success) {
+      errors.push({
+        row,
+        errors: parsed.error.issues.map(
+          (issue) => `${issue.path.join(".") || "question"}: ${issue.message}`
+        ),
+      });
+      return;
+    }
+
+    valid.push({ row, question: parsed.data });
+  });
+
+  // Only questions whose text appears in the file are looked up. Stored texts
+  // are trimmed, so matching the file's texts and their normalized forms
+  // without case finds the same duplicates as normalizeQuestionText.
+  const texts = valid.flatMap(({ question }) => [
+    question.text,
+    normalizeQuestionText(question.text),
+  ]);
+
+  const existing =
+    texts.length === 0
+      ? []
+      : await prismaClient.question.findMany({
+          where: {
+            deletedAt: null,
+            text: {
+              in: [...new Set(texts)],
+              mode: "insensitive",
+            },
+          },
+          select: {
+            id: true,
+            text: true,
+          },
+        });
+
+  const existingByText = new Map(
+    existing.map((question) => [normalizeQuestionText(question.text), question.id])
+  );
+  const seenInFile = new Map<string, number>();
+
+  const duplicates: ImportDuplicate[] = [];
+  const toCreate: ImportedQuestion[] = [];
+
+  for (const { row, question } of valid) {
+    const key = normalizeQuestionText(question.text);
+    const questionId = existingByText.get(key);
+    const duplicateOfRow = seenInFile.get(key);
+
+    if (questionId !== undefined || duplicateOfRow !== undefined) {
+      duplicates.push({ row, text: question.text, questionId, duplicateOfRow });
+      continue;
+    }
+
+    seenInFile.set(key, row);
+    toCreate.push(question);
+  }
+
+  const committed = !dryRun && errors.length === 0;
+
+  if (committed && toCreate.length > 0) {
+    await prismaClient.$transaction(async (tx) => {
+      await tx.question.createMany({
+        data: toCreate,
+      });
+    });
+  }
+
+  return {
+    dryRun,
+    committed,
+    total: records.length,
+    valid: valid.length,
+    imported: committed ? toCreate.length : 0,
+    errors,
+    duplicates,
+  };
+};
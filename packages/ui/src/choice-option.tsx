@@ -0,0 +1,63 @@
+import React, { ReactNode } from 'react';
+
+// Feedback shown once the answer is known
+type ChoiceState = 'default' | 'selected' | 'correct' | 'incorrect';
+
+// Choice option props interface
+interface ChoiceOptionProps {
+  // Short marker such as "A"
+  marker?: string;
+  children: ReactNode;
+  state?: ChoiceState;
+  // Checkbox instead of radio semantics, for questions with several answers
+  multiple?: boolean;
+  disabled?: boolean;
+  onSelect?: () => void;
+  className?: string;
+}
+
+const stateStyles: Record<ChoiceState, string> = {
+  default: 'border-gray-200 bg-white hover:border-indigo-300',
+  selected: 'border-indigo-500 bg-indigo-50',
+  correct: 'border-green-500 bg-green-50',
+  incorrect: 'border-red-500 bg-red-50',
+};
+
+const markerStyles: Record<ChoiceState, string> = {
+  default: 'border-gray-300 text-gray-600',
+  selected: 'border-indigo-500 bg-indigo-500 text-white',
+  correct: 'border-green-500 bg-green-500 text-white',
+  incorrect: 'border-red-500 bg-red-500 text-white',
+};
+
+// One selectable answer of a multiple choice question
+const ChoiceOption: React.FC<ChoiceOptionProps> = ({
+  marker,
+  children,
+  state = 'default',
+  multiple = false,
+  disabled = false,
+  onSelect,
+  className = '',
+}) => (
+  <button
+    type="button"
+    role={multiple ? 'checkbox' : 'radio'}
+    aria-checked={state === 'selected' || state === 'incorrect'}
+    disabled={disabled}
+    onClick={onSelect}
+    className={`flex w-full items-center gap-3 rounded-lg border-2 px-4 py-3 text-left transition-colors disabled:cursor-default ${stateStyles[state]} ${className}`.trim()}
+  >
+    {marker && (
+      <span
+        className={`flex h-7 w-7 shrink-0 items-center justify-center border-2 text-sm font-semibold ${multiple ? 'rounded-md' : 'rounded-full'} ${markerStyles[state]}`}
+      >
+        {marker}
+      </span>
+    )}
+    <span className="text-gray-900">{children}</span>
+  </button>
+);
+
+export { ChoiceOption };
+export type { ChoiceOptionProps, ChoiceState };
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// Countdown props interface
+interface CountdownProps {
+  // Epoch milliseconds at which the countdown reaches zero
+  deadline: number;
+  // Called once when the countdown reaches zero
+  onExpire?: () => void;
+  // Remaining seconds from which the countdown is highlighted
+  warningSeconds?: number;
+  className?: string;
+}
+
+const getRemainingSeconds = (deadline: number): number =>
+  Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+
+// Formats seconds as m:ss, or h:mm:ss from an hour up
+const formatDuration = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+const Countdown: React.FC<CountdownProps> = ({
+  deadline,
+  onExpire,
+  warningSeconds = 60,
+  className = '',
+}) => {
+  const [remaining, setRemaining] = useState<number>(() => getRemainingSeconds(deadline));
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    setRemaining(getRemainingSeconds(deadline));
+
+    const interval = setInterval(() => {
+      const seconds = getRemainingSeconds(deadline);
+      setRemaining(seconds);
+
+      if (seconds === 0) {
+        clearInterval(interval);
+        onExpireRef.current?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const colors: string =
+    remaining <= warningSeconds
+      ? 'bg-red-50 text-red-700 border-red-200'
+      : 'bg-gray-50 text-gray-800 border-gray-200';
+
+  return (
+    <span
+      role="timer"
+      aria-live={remaining <= warningSeconds ? 'polite' : 'off'}
+      className={`inline-flex items-center rounded-full border px-3 py-1 font-mono text-sm font-semibold tabular-nums ${colors} ${className}`.trim()}
+    >
+      {formatDuration(remaining)}
+    </span>
+  );
+};
+
+export { Countdown, formatDuration };
+export type { CountdownProps };
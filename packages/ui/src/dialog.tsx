@@ -0,0 +1,61 @@
+import React, { ReactNode, useEffect, useId } from 'react';
+
+// Dialog props interface
+interface DialogProps {
+  open: boolean;
+  title: string;
+  children?: ReactNode;
+  // Buttons shown at the bottom right, e.g. cancel and confirm
+  actions?: ReactNode;
+  // Called on Escape and on a click outside the dialog
+  onClose: () => void;
+  className?: string;
+}
+
+const Dialog: React.FC<DialogProps> = ({
+  open,
+  title,
+  children,
+  actions,
+  onClose,
+  className = '',
+}) => {
+  const titleId = useId();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className={`w-full max-w-md rounded-xl bg-white p-6 shadow-xl ${className}`.trim()}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h2 id={titleId} className="text-lg font-semibold text-gray-900">
+          {title}
+        </h2>
+        {children && <div className="mt-3 text-sm text-gray-600">{children}</div>}
+        {actions && <div className="mt-6 flex justify-end gap-3">{actions}</div>}
+      </div>
+    </div>
+  );
+};
+
+export { Dialog };
+export type { DialogProps };
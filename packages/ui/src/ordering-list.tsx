@@ -0,0 +1,86 @@
+import React, { ReactNode } from 'react';
+
+// Feedback shown once the correct order is known
+type OrderingItemState = 'default' | 'correct' | 'incorrect';
+
+interface OrderingItem {
+  id: string;
+  label: ReactNode;
+  state?: OrderingItemState;
+}
+
+// Ordering list props interface
+interface OrderingListProps {
+  // Items in their current order
+  items: OrderingItem[];
+  onMove?: (from: number, to: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const stateStyles: Record<OrderingItemState, string> = {
+  default: 'border-gray-200 bg-white',
+  correct: 'border-green-500 bg-green-50',
+  incorrect: 'border-red-500 bg-red-50',
+};
+
+const moveButtonStyles =
+  'flex h-8 w-8 items-center justify-center rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-900 disabled:cursor-default disabled:opacity-30 disabled:hover:bg-transparent';
+
+const ArrowIcon: React.FC<{ direction: 'up' | 'down' }> = ({ direction }) => (
+  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d={direction === 'up' ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'}
+    />
+  </svg>
+);
+
+// Items the user puts in order by moving them up and down, one step at a time
+const OrderingList: React.FC<OrderingListProps> = ({
+  items,
+  onMove,
+  disabled = false,
+  className = '',
+}) => (
+  <ol className={`space-y-2 ${className}`.trim()}>
+    {items.map((item, index) => (
+      <li
+        key={item.id}
+        className={`flex items-center gap-3 rounded-lg border-2 px-4 py-2 ${stateStyles[item.state ?? 'default']}`}
+      >
+        <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-gray-100 text-sm font-semibold text-gray-600">
+          {index + 1}
+        </span>
+        <span className="flex-1 text-gray-900">{item.label}</span>
+        {onMove && (
+          <span className="flex gap-1">
+            <button
+              type="button"
+              aria-label={`Move ${typeof item.label === 'string' ? item.label : 'item'} up`}
+              disabled={disabled || index === 0}
+              onClick={() => onMove(index, index - 1)}
+              className={moveButtonStyles}
+            >
+              <ArrowIcon direction="up" />
+            </button>
+            <button
+              type="button"
+              aria-label={`Move ${typeof item.label === 'string' ? item.label : 'item'} down`}
+              disabled={disabled || index === items.length - 1}
+              onClick={() => onMove(index, index + 1)}
+              className={moveButtonStyles}
+            >
+              <ArrowIcon direction="down" />
+            </button>
+          </span>
+        )}
+      </li>
+    ))}
+  </ol>
+);
+
+export { OrderingList };
+export type { OrderingItem, OrderingItemState, OrderingListProps };
@@ -0,0 +1,71 @@
+import React from 'react';
+
+// How a question shows up in the palette
+type PaletteStatus = 'unanswered' | 'answered' | 'flagged' | 'answered-flagged' | 'locked';
+
+interface PaletteItem {
+  status: PaletteStatus;
+  // Accessible name, defaults to "Question n"
+  label?: string;
+}
+
+// Question palette props interface
+interface QuestionPaletteProps {
+  items: PaletteItem[];
+  current: number;
+  onSelect: (index: number) => void;
+  className?: string;
+}
+
+const statusStyles: Record<PaletteStatus, string> = {
+  unanswered: 'bg-white text-gray-700 border-gray-300 hover:border-indigo-400',
+  answered: 'bg-green-500 text-white border-green-500 hover:bg-green-600',
+  flagged: 'bg-amber-400 text-white border-amber-400 hover:bg-amber-500',
+  'answered-flagged': 'bg-green-500 text-white border-amber-400 ring-2 ring-amber-400',
+  locked: 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed',
+};
+
+const legend: { status: PaletteStatus; label: string }[] = [
+  { status: 'answered', label: 'Answered' },
+  { status: 'unanswered', label: 'Not answered' },
+  { status: 'flagged', label: 'Marked for review' },
+];
+
+const QuestionPalette: React.FC<QuestionPaletteProps> = ({
+  items,
+  current,
+  onSelect,
+  className = '',
+}) => (
+  <nav aria-label="Questions" className={className}>
+    <ol className="grid grid-cols-5 gap-2">
+      {items.map((item, index) => (
+        <li key={index}>
+          <button
+            type="button"
+            disabled={item.status === 'locked'}
+            aria-current={index === current ? 'step' : undefined}
+            aria-label={`${item.label ?? `Question ${index + 1}`}, ${item.status.replace('-', ' and ')}`}
+            onClick={() => onSelect(index)}
+            className={`h-10 w-10 rounded-lg border-2 text-sm font-medium transition-colors ${statusStyles[item.status]} ${
+              index === current ? 'outline outline-2 outline-offset-2 outline-indigo-600' : ''
+            }`}
+          >
+            {index + 1}
+          </button>
+        </li>
+      ))}
+    </ol>
+    <ul className="mt-4 space-y-1 text-xs text-gray-600">
+      {legend.map(({ status, label }) => (
+        <li key={status} className="flex items-center gap-2">
+          <span className={`inline-block h-3 w-3 rounded border-2 ${statusStyles[status]}`} />
+          {label}
+        </li>
+      ))}
+    </ul>
+  </nav>
+);
+
+export { QuestionPalette };
+export type { QuestionPaletteProps, PaletteItem, PaletteStatus };